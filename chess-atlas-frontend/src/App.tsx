@@ -1,20 +1,37 @@
 import { BrowserRouter, Routes, Route } from 'react-router-dom';
+import KeyboardShortcuts from './components/KeyboardShortcuts';
 import Navbar from './components/Navbar';
+import SettingsProvider from './components/SettingsProvider';
 import AnalyzerPage from './pages/AnalyzerPage';
+import BatchPage from './pages/BatchPage';
 import ExplorerPage from './pages/ExplorerPage';
+import HistoryPage from './pages/HistoryPage';
+import SettingsPage from './pages/SettingsPage';
+
+// Chessground's board and piece styles for every page, ahead of the theme overrides in App.css
+import 'chessground/assets/chessground.base.css';
+import 'chessground/assets/chessground.brown.css';
+import 'chessground/assets/chessground.cburnett.css';
 import './App.css';
 
 function App() {
   return (
-    <BrowserRouter>
-      <div className="app-shell">
-        <Navbar />
-        <Routes>
-          <Route path="/" element={<AnalyzerPage />} />
-          <Route path="/explorer" element={<ExplorerPage />} />
-        </Routes>
-      </div>
-    </BrowserRouter>
+    <SettingsProvider>
+      <BrowserRouter>
+        <div className="app-shell">
+          <Navbar />
+          <Routes>
+            <Route path="/" element={<AnalyzerPage />} />
+            <Route path="/position/*" element={<AnalyzerPage />} />
+            <Route path="/batch" element={<BatchPage />} />
+            <Route path="/explorer" element={<ExplorerPage />} />
+            <Route path="/history" element={<HistoryPage />} />
+            <Route path="/settings" element={<SettingsPage />} />
+          </Routes>
+          <KeyboardShortcuts />
+        </div>
+      </BrowserRouter>
+    </SettingsProvider>
   );
 }
 
@@ -0,0 +1,19 @@
+import { describePosition } from '../lib/boardDescription';
+
+interface BoardDescriptionProps {
+  fen: string;
+  lastMoveSan?: string;
+  /** Names the board, so "Detected position" and "Explorer position" read apart. */
+  label: string;
+}
+
+/** Visually hidden, polite live region that reads the position out whenever it changes. */
+function BoardDescription({ fen, lastMoveSan, label }: BoardDescriptionProps) {
+  return (
+    <p className="visually-hidden" aria-live="polite" aria-atomic="true">
+      {fen ? `${label}. ${describePosition(fen, lastMoveSan)}` : `${label}: empty.`}
+    </p>
+  );
+}
+
+export default BoardDescription;
@@ -0,0 +1,175 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+
+interface CameraCaptureProps {
+  onCapture: (file: File) => void;
+  onClose: () => void;
+  /** Called when the camera can't be opened; the parent should fall back to the dropzone. */
+  onUnavailable: (message: string) => void;
+}
+
+// Auto-capture fires once this many consecutive samples barely differ (~1.5 s)
+const STABLE_SAMPLES_REQUIRED = 6;
+const SAMPLE_INTERVAL_MS = 250;
+const SAMPLE_SIZE = 32;
+// Mean per-pixel brightness change (0..255) below which two samples count as "still"
+const STABILITY_THRESHOLD = 4;
+
+const isCameraSupported = (): boolean =>
+  typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+
+const getCameraErrorMessage = (err: unknown): string => {
+  const name = err instanceof DOMException ? err.name : '';
+  if (name === 'NotAllowedError' || name === 'SecurityError') {
+    return 'Camera permission was denied. You can still upload or paste an image.';
+  }
+  if (name === 'NotFoundError' || name === 'OverconstrainedError') {
+    return 'No camera was found. You can still upload or paste an image.';
+  }
+  if (name === 'NotReadableError') {
+    return 'The camera is in use by another app. You can still upload or paste an image.';
+  }
+  return 'Could not start the camera. You can still upload or paste an image.';
+};
+
+/** The largest centred square of the video frame, which is what the square viewport shows. */
+const centredSquare = (video: HTMLVideoElement) => {
+  const size = Math.min(video.videoWidth, video.videoHeight);
+  return { x: (video.videoWidth - size) / 2, y: (video.videoHeight - size) / 2, size };
+};
+
+/**
+ * Live camera preview with a square framing guide. Captures the framed square as
+ * a JPEG file, either on demand or automatically once the picture holds still.
+ */
+function CameraCapture({ onCapture, onClose, onUnavailable }: CameraCaptureProps) {
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [deviceId, setDeviceId] = useState<string | null>(null);
+  const [isReady, setIsReady] = useState<boolean>(false);
+  const [autoCapture, setAutoCapture] = useState<boolean>(false);
+  const [stableProgress, setStableProgress] = useState<number>(0);
+
+  useEffect(() => {
+    if (!isCameraSupported()) {
+      onUnavailable('This browser has no camera access. You can still upload or paste an image.');
+      return;
+    }
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+    setIsReady(false);
+    const constraints: MediaStreamConstraints = {
+      audio: false,
+      video: deviceId
+        ? { deviceId: { exact: deviceId } }
+        : { facingMode: { ideal: 'environment' }, width: { ideal: 1920 }, height: { ideal: 1920 } },
+    };
+    navigator.mediaDevices.getUserMedia(constraints).then(async mediaStream => {
+      if (cancelled) {
+        mediaStream.getTracks().forEach(track => track.stop());
+        return;
+      }
+      stream = mediaStream;
+      const video = videoRef.current;
+      if (video) {
+        video.srcObject = mediaStream;
+        await video.play().catch(() => undefined);
+      }
+      // Labels and the full device list are only available once permission is granted
+      const all = await navigator.mediaDevices.enumerateDevices();
+      if (cancelled) return;
+      setDevices(all.filter(device => device.kind === 'videoinput'));
+      setIsReady(true);
+    }).catch(err => {
+      if (!cancelled) onUnavailable(getCameraErrorMessage(err));
+    });
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [deviceId, onUnavailable]);
+
+  const capture = useCallback(() => {
+    const video = videoRef.current;
+    if (!video || video.videoWidth === 0) return;
+    const { x, y, size } = centredSquare(video);
+    const canvas = document.createElement('canvas');
+    canvas.width = size;
+    canvas.height = size;
+    canvas.getContext('2d')?.drawImage(video, x, y, size, size, 0, 0, size, size);
+    canvas.toBlob(blob => {
+      if (!blob) return;
+      onCapture(new File([blob], `camera-${Date.now()}.jpg`, { type: 'image/jpeg' }));
+    }, 'image/jpeg', 0.92);
+  }, [onCapture]);
+
+  // Compare tiny greyscale thumbnails of consecutive frames to detect a steady shot
+  useEffect(() => {
+    if (!autoCapture || !isReady) {
+      setStableProgress(0);
+      return;
+    }
+    const canvas = document.createElement('canvas');
+    canvas.width = SAMPLE_SIZE;
+    canvas.height = SAMPLE_SIZE;
+    const context = canvas.getContext('2d', { willReadFrequently: true });
+    let previous: Uint8ClampedArray | null = null;
+    let stableCount = 0;
+    const interval = window.setInterval(() => {
+      const video = videoRef.current;
+      if (!video || !context || video.videoWidth === 0) return;
+      const { x, y, size } = centredSquare(video);
+      context.drawImage(video, x, y, size, size, 0, 0, SAMPLE_SIZE, SAMPLE_SIZE);
+      const { data } = context.getImageData(0, 0, SAMPLE_SIZE, SAMPLE_SIZE);
+      const luma = new Uint8ClampedArray(SAMPLE_SIZE * SAMPLE_SIZE);
+      for (let i = 0; i < luma.length; i++) {
+        luma[i] = (data[i * 4] * 299 + data[i * 4 + 1] * 587 + data[i * 4 + 2] * 114) / 1000;
+      }
+      if (previous) {
+        let diff = 0;
+        for (let i = 0; i < luma.length; i++) diff += Math.abs(luma[i] - previous[i]);
+        stableCount = diff / luma.length < STABILITY_THRESHOLD ? stableCount + 1 : 0;
+        setStableProgress(stableCount / STABLE_SAMPLES_REQUIRED);
+        if (stableCount >= STABLE_SAMPLES_REQUIRED) {
+          window.clearInterval(interval);
+          capture();
+        }
+      }
+      previous = luma;
+    }, SAMPLE_INTERVAL_MS);
+    return () => window.clearInterval(interval);
+  }, [autoCapture, isReady, capture]);
+
+  const switchCamera = () => {
+    if (devices.length < 2) return;
+    const current = (videoRef.current?.srcObject as MediaStream | null)?.getVideoTracks()[0]?.getSettings().deviceId;
+    const index = devices.findIndex(device => device.deviceId === (deviceId ?? current));
+    setDeviceId(devices[(index + 1) % devices.length].deviceId);
+  };
+
+  return (
+    <div className="camera-capture">
+      <div className="camera-viewport">
+        <video ref={videoRef} className="camera-video" playsInline muted />
+        <div className="camera-frame" aria-hidden="true" />
+        {!isReady && <p className="camera-status">Starting camera…</p>}
+        {autoCapture && isReady && (
+          <div className="camera-stability" aria-hidden="true">
+            <div className="camera-stability-fill" style={{ width: `${Math.min(1, stableProgress) * 100}%` }} />
+          </div>
+        )}
+      </div>
+      <p className="camera-hint">Line the board up with the square and hold steady.</p>
+      <div className="camera-controls">
+        <button type="button" className="button" onClick={capture} disabled={!isReady}>Capture</button>
+        <button type="button" className={`switch-button ${autoCapture ? 'is-active' : ''}`}
+          onClick={() => setAutoCapture(prev => !prev)} aria-pressed={autoCapture} disabled={!isReady}>Auto-capture</button>
+        {devices.length > 1 && (
+          <button type="button" className="switch-button" onClick={switchCamera}>Switch camera</button>
+        )}
+        <button type="button" className="switch-button" onClick={onClose}>Cancel</button>
+      </div>
+    </div>
+  );
+}
+
+export default CameraCapture;
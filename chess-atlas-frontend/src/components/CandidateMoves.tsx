@@ -0,0 +1,76 @@
+import { useState } from 'react';
+import type { CandidateMove } from '../lib/candidateMoves';
+
+interface CandidateMovesProps {
+  candidates: CandidateMove[];
+  /** Video count per resulting FEN: missing while loading, `null` when the lookup failed. */
+  counts: Map<string, number | null>;
+  /** Resulting FENs being counted; only the likeliest moves are, until the user asks for the rest. */
+  counted: Set<string>;
+  onCountAll: () => void;
+  onPlay: (move: CandidateMove) => void;
+}
+
+type SortKey = 'videos' | 'move';
+
+/**
+ * Every legal continuation with how many videos reach the resulting position,
+ * so the next step can be chosen by coverage instead of by guessing.
+ */
+function CandidateMoves({ candidates, counts, counted, onCountAll, onPlay }: CandidateMovesProps) {
+  const [sortKey, setSortKey] = useState<SortKey>('videos');
+
+  if (candidates.length === 0) return null;
+
+  const loaded = candidates.filter(move => counts.has(move.fen)).length;
+  const sorted = [...candidates].sort((a, b) => {
+    if (sortKey === 'videos') {
+      // Unknown counts sink below real ones, ties keep SAN order
+      const diff = (counts.get(b.fen) ?? -1) - (counts.get(a.fen) ?? -1);
+      if (diff !== 0) return diff;
+    }
+    return a.san.localeCompare(b.san);
+  });
+
+  return (
+    <div className="candidate-moves">
+      <div className="candidate-moves-header">
+        <span className="candidate-moves-title">
+          Next moves{loaded < candidates.length ? ` (${loaded}/${candidates.length})` : ''}
+        </span>
+        {counted.size < candidates.length && (
+          <button type="button" className="candidate-moves-count-all" onClick={onCountAll}>Count all</button>
+        )}
+        <label>
+          Sort
+          <select value={sortKey} onChange={e => setSortKey(e.target.value as SortKey)}>
+            <option value="videos">Most videos</option>
+            <option value="move">Move</option>
+          </select>
+        </label>
+      </div>
+      <ul className="candidate-moves-list">
+        {sorted.map(move => {
+          const count = counts.get(move.fen);
+          return (
+            <li key={move.san}>
+              <button
+                type="button"
+                className={`candidate-move${count === 0 ? ' is-empty' : ''}`}
+                onClick={() => onPlay(move)}
+                title={`Play ${move.san}`}
+              >
+                <span className="candidate-move-san">{move.san}</span>
+                <span className="candidate-move-count">
+                  {count === undefined ? (counted.has(move.fen) ? '…' : '–') : count === null ? '?' : count}
+                </span>
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
+
+export default CandidateMoves;
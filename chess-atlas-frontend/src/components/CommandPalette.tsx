@@ -0,0 +1,74 @@
+import { useState, type KeyboardEvent } from 'react';
+import { formatKey, type ShortcutAction } from '../lib/shortcuts';
+
+interface CommandPaletteProps {
+  actions: ShortcutAction[];
+  onClose: () => void;
+}
+
+/** Ctrl+K: type to filter every available action, arrows to pick, Enter to run. */
+function CommandPalette({ actions, onClose }: CommandPaletteProps) {
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const words = query.trim().toLowerCase().split(/\s+/).filter(Boolean);
+  const matches = actions.filter(action => {
+    if (action.disabled) return false;
+    const text = `${action.group} ${action.label}`.toLowerCase();
+    return words.every(word => text.includes(word));
+  });
+  const active = Math.min(activeIndex, Math.max(0, matches.length - 1));
+
+  const run = (action: ShortcutAction) => {
+    onClose();
+    action.run();
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      event.preventDefault();
+      const step = event.key === 'ArrowDown' ? 1 : -1;
+      setActiveIndex((active + step + matches.length) % Math.max(1, matches.length));
+    } else if (event.key === 'Enter' && matches[active]) {
+      event.preventDefault();
+      run(matches[active]);
+    }
+  };
+
+  return (
+    <div className="shortcut-backdrop" onClick={onClose}>
+      <div className="command-palette" role="dialog" aria-modal="true" aria-label="Command palette"
+        onClick={e => e.stopPropagation()}>
+        <input
+          type="text"
+          className="command-palette-input"
+          placeholder="Type a command…"
+          value={query}
+          onChange={e => { setQuery(e.target.value); setActiveIndex(0); }}
+          onKeyDown={handleKeyDown}
+          aria-label="Search commands"
+          autoFocus
+        />
+        <ul className="command-palette-list" role="listbox">
+          {matches.length === 0 && <li className="command-palette-empty">No matching commands</li>}
+          {matches.map((action, index) => (
+            <li key={action.id} role="option" aria-selected={index === active}>
+              <button
+                type="button"
+                className={`command-palette-item${index === active ? ' is-active' : ''}`}
+                onClick={() => run(action)}
+                onMouseEnter={() => setActiveIndex(index)}
+              >
+                <span className="command-palette-group">{action.group}</span>
+                <span className="command-palette-label">{action.label}</span>
+                {action.key && <kbd>{formatKey(action.key)}</kbd>}
+              </button>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
+
+export default CommandPalette;
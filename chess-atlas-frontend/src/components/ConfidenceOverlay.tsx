@@ -0,0 +1,86 @@
+import type { Key } from 'chessground/types';
+import { squareToGrid } from '../lib/boardGeometry';
+import {
+  LOW_CONFIDENCE_THRESHOLD,
+  describePieceLabel,
+  type SquarePredictions,
+} from '../lib/confidence';
+
+interface ConfidenceOverlayProps {
+  predictions: SquarePredictions;
+  orientation: 'white' | 'black';
+  hoveredSquare: Key | null;
+}
+
+const SQUARE_PERCENT = 100 / 8;
+
+/** Red for coin-flip guesses, fading to transparent green as confidence approaches 1. */
+function heatColor(confidence: number): string {
+  const t = Math.min(1, Math.max(0, (confidence - 0.5) / 0.5));
+  const hue = Math.round(t * 120);
+  const alpha = Math.min(0.55, (1 - confidence) * 1.1);
+  return `hsla(${hue}, 85%, 50%, ${alpha.toFixed(2)})`;
+}
+
+/**
+ * Heatmap and warning markers drawn over the Detected Position board. Purely visual
+ * (pointer-events: none); the parent tracks which square is hovered.
+ */
+function ConfidenceOverlay({ predictions, orientation, hoveredSquare }: ConfidenceOverlayProps) {
+  const hovered = hoveredSquare ? predictions.get(hoveredSquare) : undefined;
+  const hoveredGrid = hoveredSquare ? squareToGrid(hoveredSquare, orientation) : null;
+
+  return (
+    <div className="confidence-overlay">
+      {[...predictions].map(([key, prediction]) => {
+        const { col, row } = squareToGrid(key, orientation);
+        const isLow = prediction.confidence < LOW_CONFIDENCE_THRESHOLD;
+        return (
+          <div
+            key={key}
+            className={`confidence-cell${isLow ? ' is-low' : ''}`}
+            style={{
+              left: `${col * SQUARE_PERCENT}%`,
+              top: `${row * SQUARE_PERCENT}%`,
+              backgroundColor: heatColor(prediction.confidence),
+            }}
+          >
+            {isLow && <span className="confidence-marker">!</span>}
+          </div>
+        );
+      })}
+      {hovered && hoveredGrid && (
+        <div
+          className="confidence-tooltip"
+          style={{
+            // Open towards the board centre so the tooltip stays inside the frame
+            ...(hoveredGrid.col < 4
+              ? { left: `${(hoveredGrid.col + 1) * SQUARE_PERCENT}%` }
+              : { right: `${(8 - hoveredGrid.col) * SQUARE_PERCENT}%` }),
+            ...(hoveredGrid.row < 4
+              ? { top: `${hoveredGrid.row * SQUARE_PERCENT}%` }
+              : { bottom: `${(7 - hoveredGrid.row) * SQUARE_PERCENT}%` }),
+          }}
+        >
+          <div className="confidence-tooltip-header">
+            {hoveredSquare} · {Math.round(hovered.confidence * 100)}% confident
+          </div>
+          {hovered.topK.length > 0 ? (
+            <ol className="confidence-tooltip-guesses">
+              {hovered.topK.map(guess => (
+                <li key={guess.label}>
+                  <span>{describePieceLabel(guess.label)}</span>
+                  <span>{Math.round(guess.probability * 100)}%</span>
+                </li>
+              ))}
+            </ol>
+          ) : (
+            <div className="confidence-tooltip-empty">No alternatives reported.</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ConfidenceOverlay;
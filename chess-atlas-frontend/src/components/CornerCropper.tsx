@@ -0,0 +1,87 @@
+import { useState, useEffect, useRef, type KeyboardEvent, type PointerEvent } from 'react';
+import type { Point, Quad } from '../lib/perspective';
+
+interface CornerCropperProps {
+  image: File;
+  corners: Quad;
+  onChange: (corners: Quad) => void;
+}
+
+const CORNER_LABELS = ['Top-left', 'Top-right', 'Bottom-right', 'Bottom-left'];
+const KEYBOARD_STEP = 0.005;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+/**
+ * The uploaded photo with four draggable handles for the board corners. Corners
+ * are kept as fractions of the image size so they survive any re-layout.
+ */
+function CornerCropper({ image, corners, onChange }: CornerCropperProps) {
+  const stageRef = useRef<HTMLDivElement | null>(null);
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [dragging, setDragging] = useState<number | null>(null);
+
+  useEffect(() => {
+    const url = URL.createObjectURL(image);
+    setImageUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [image]);
+
+  const moveCorner = (index: number, point: Point) => {
+    const next = [...corners] as Quad;
+    next[index] = { x: clamp01(point.x), y: clamp01(point.y) };
+    onChange(next);
+  };
+
+  const handlePointerDown = (index: number) => (event: PointerEvent<HTMLButtonElement>) => {
+    event.preventDefault();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setDragging(index);
+  };
+
+  const handlePointerMove = (index: number) => (event: PointerEvent<HTMLButtonElement>) => {
+    if (dragging !== index || !stageRef.current) return;
+    const rect = stageRef.current.getBoundingClientRect();
+    moveCorner(index, { x: (event.clientX - rect.left) / rect.width, y: (event.clientY - rect.top) / rect.height });
+  };
+
+  const handleKeyDown = (index: number) => (event: KeyboardEvent<HTMLButtonElement>) => {
+    const deltas: Record<string, Point> = {
+      ArrowLeft: { x: -KEYBOARD_STEP, y: 0 },
+      ArrowRight: { x: KEYBOARD_STEP, y: 0 },
+      ArrowUp: { x: 0, y: -KEYBOARD_STEP },
+      ArrowDown: { x: 0, y: KEYBOARD_STEP },
+    };
+    const delta = deltas[event.key];
+    if (!delta) return;
+    event.preventDefault();
+    moveCorner(index, { x: corners[index].x + delta.x, y: corners[index].y + delta.y });
+  };
+
+  const outline = corners.map(({ x, y }) => `${x * 100},${y * 100}`).join(' ');
+
+  return (
+    <div className="crop-stage" ref={stageRef}>
+      {imageUrl && <img src={imageUrl} alt="Uploaded chessboard" className="crop-image" draggable={false} />}
+      <svg className="crop-outline" viewBox="0 0 100 100" preserveAspectRatio="none" aria-hidden="true">
+        <polygon points={outline} />
+      </svg>
+      {corners.map(({ x, y }, index) => (
+        <button
+          key={CORNER_LABELS[index]}
+          type="button"
+          className={`crop-handle${dragging === index ? ' is-dragging' : ''}`}
+          style={{ left: `${x * 100}%`, top: `${y * 100}%` }}
+          aria-label={`${CORNER_LABELS[index]} board corner`}
+          onPointerDown={handlePointerDown(index)}
+          onPointerMove={handlePointerMove(index)}
+          onPointerUp={() => setDragging(null)}
+          onPointerCancel={() => setDragging(null)}
+          onKeyDown={handleKeyDown(index)}
+        />
+      ))}
+    </div>
+  );
+}
+
+export default CornerCropper;
@@ -0,0 +1,123 @@
+import { useState } from 'react';
+import { Chess } from 'chess.js';
+import { useEngineAnalysis } from '../hooks/useEngineAnalysis';
+import type { EngineLine } from '../lib/uciEngine';
+
+interface EnginePanelProps {
+  /** Position to analyse; null when there is nothing on the board yet. */
+  fen: string | null;
+}
+
+const MAX_PV_MOVES = 10;
+
+const formatScore = (line: EngineLine): string => {
+  if (line.mate !== undefined) return `#${line.mate}`;
+  const pawns = (line.scoreCp ?? 0) / 100;
+  return `${pawns > 0 ? '+' : ''}${pawns.toFixed(2)}`;
+};
+
+/** White's share of the eval bar, 0..100, using the usual logistic win-chance curve. */
+const whiteShare = (line: EngineLine | undefined): number => {
+  if (!line) return 50;
+  if (line.mate !== undefined) return line.mate > 0 ? 100 : 0;
+  const winChance = 2 / (1 + Math.exp(-0.00368208 * (line.scoreCp ?? 0))) - 1;
+  return 50 + 50 * winChance;
+};
+
+/** "12. Nf3 Nc6 13. Bb5" from a UCI principal variation. */
+const formatPv = (fen: string, pv: string[]): string => {
+  const chess = new Chess(fen);
+  const parts: string[] = [];
+  for (const [i, uci] of pv.slice(0, MAX_PV_MOVES).entries()) {
+    const moveNumber = chess.moveNumber();
+    const isWhite = chess.turn() === 'w';
+    let san: string;
+    try {
+      san = chess.move({ from: uci.slice(0, 2), to: uci.slice(2, 4), promotion: uci[4] }).san;
+    } catch {
+      break;
+    }
+    if (isWhite) parts.push(`${moveNumber}.`);
+    else if (i === 0) parts.push(`${moveNumber}...`);
+    parts.push(san);
+  }
+  return parts.join(' ');
+};
+
+function EnginePanel({ fen }: EnginePanelProps) {
+  const [enabled, setEnabled] = useState(false);
+  const [multiPv, setMultiPv] = useState(3);
+  const [limitKind, setLimitKind] = useState<'depth' | 'time'>('depth');
+  const [depthLimit, setDepthLimit] = useState(20);
+  const [secondsLimit, setSecondsLimit] = useState(5);
+
+  const limit = limitKind === 'depth'
+    ? { kind: 'depth' as const, depth: depthLimit }
+    : { kind: 'time' as const, milliseconds: secondsLimit * 1000 };
+  const { lines, depth, isRunning, error } = useEngineAnalysis(fen, enabled, { multiPv, limit });
+  const best = lines[0];
+  const share = whiteShare(best);
+
+  return (
+    <div className="engine-panel">
+      <div className="engine-header">
+        <button
+          type="button"
+          className={`switch-button ${enabled ? 'is-active' : ''}`}
+          onClick={() => setEnabled(e => !e)}
+          disabled={!fen}
+          aria-pressed={enabled}
+        >{enabled ? 'Stop engine' : 'Start engine'}</button>
+        <span className="engine-status">
+          {enabled && best && `${formatScore(best)} · depth ${depth}${isRunning ? '…' : ''}`}
+          {enabled && !best && isRunning && 'Thinking…'}
+        </span>
+      </div>
+
+      <div className="engine-settings">
+        <label>
+          Lines
+          <select value={multiPv} onChange={e => setMultiPv(Number(e.target.value))}>
+            {[1, 2, 3, 4, 5].map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </label>
+        <label>
+          Limit
+          <select value={limitKind} onChange={e => setLimitKind(e.target.value as 'depth' | 'time')}>
+            <option value="depth">Depth</option>
+            <option value="time">Time</option>
+          </select>
+        </label>
+        {limitKind === 'depth' ? (
+          <input type="number" min={1} max={40} value={depthLimit} aria-label="Depth limit"
+            onChange={e => setDepthLimit(Math.min(40, Math.max(1, Number(e.target.value) || 1)))} />
+        ) : (
+          <input type="number" min={1} max={120} value={secondsLimit} aria-label="Time limit in seconds"
+            onChange={e => setSecondsLimit(Math.min(120, Math.max(1, Number(e.target.value) || 1)))} />
+        )}
+        {limitKind === 'time' && <span>s</span>}
+      </div>
+
+      {enabled && (
+        <>
+          <div className="eval-bar" role="img" aria-label={best ? `Evaluation ${formatScore(best)}` : 'No evaluation yet'}>
+            <div className="eval-bar-white" style={{ width: `${share}%` }} />
+          </div>
+          {error && <p className="engine-error">{error}</p>}
+          <ol className="engine-lines">
+            {fen && lines.map(line => (
+              <li key={line.multipv}>
+                <span className={`engine-score ${(line.mate ?? line.scoreCp ?? 0) >= 0 ? 'is-white' : 'is-black'}`}>
+                  {formatScore(line)}
+                </span>
+                <span className="engine-pv">{formatPv(fen, line.pv)}</span>
+              </li>
+            ))}
+          </ol>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default EnginePanel;
@@ -0,0 +1,58 @@
+import { useState, type FormEvent } from 'react';
+
+interface FenPanelProps {
+  /** FEN the explorer is currently rooted at, offered as the starting text. */
+  rootFen: string;
+  /** Re-root at `fen`; returns an error message, or null on success. */
+  onLoad: (fen: string) => string | null;
+  onStandardStart: () => void;
+}
+
+/** Start exploring from any position instead of the initial one. */
+function FenPanel({ rootFen, onLoad, onStandardStart }: FenPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [text, setText] = useState('');
+  const [error, setError] = useState('');
+
+  const toggle = () => {
+    if (!isOpen) setText(rootFen);
+    setError('');
+    setIsOpen(o => !o);
+  };
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const message = onLoad(text.trim());
+    setError(message ?? '');
+    if (!message) setIsOpen(false);
+  };
+
+  return (
+    <div className="fen-panel">
+      <button type="button" className={`switch-button${isOpen ? ' is-active' : ''}`}
+        onClick={toggle} aria-expanded={isOpen}>Start from FEN</button>
+      {isOpen && (
+        <form className="fen-panel-form" onSubmit={handleSubmit}>
+          <input
+            type="text"
+            className="fen-input"
+            value={text}
+            onChange={e => setText(e.target.value)}
+            placeholder="rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1"
+            aria-label="Starting FEN"
+            spellCheck={false}
+          />
+          <div className="pgn-panel-buttons">
+            <button type="submit" className="switch-button" disabled={!text.trim()}>Explore</button>
+            <button type="button" className="switch-button" onClick={() => { onStandardStart(); setIsOpen(false); }}>
+              Standard start
+            </button>
+          </div>
+          {error && <p className="pgn-error">{error}</p>}
+        </form>
+      )}
+    </div>
+  );
+}
+
+export default FenPanel;
@@ -0,0 +1,65 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import CommandPalette from './CommandPalette';
+import ShortcutHelp from './ShortcutHelp';
+import { findShortcut, getActions, isTypingTarget, useShortcuts, type ShortcutAction } from '../lib/shortcuts';
+
+type Overlay = 'palette' | 'help' | null;
+
+/**
+ * The one keydown listener for the app. Opens the palette on Ctrl/Cmd+K and
+ * the help on "?", and otherwise runs whichever registered action owns the key.
+ */
+function KeyboardShortcuts() {
+  const navigate = useNavigate();
+  const [overlay, setOverlay] = useState<Overlay>(null);
+  // Snapshot taken when an overlay opens; pages don't change underneath it
+  const [actions, setActions] = useState<ShortcutAction[]>([]);
+
+  const open = (next: Overlay) => {
+    setActions(getActions());
+    setOverlay(next);
+  };
+
+  useShortcuts([
+    { id: 'go-analyzer', group: 'Go to', label: 'Analyzer', run: () => navigate('/') },
+    { id: 'go-batch', group: 'Go to', label: 'Batch', run: () => navigate('/batch') },
+    { id: 'go-explorer', group: 'Go to', label: 'Explorer', run: () => navigate('/explorer') },
+    { id: 'go-history', group: 'Go to', label: 'History', run: () => navigate('/history') },
+    { id: 'go-settings', group: 'Go to', label: 'Settings', run: () => navigate('/settings') },
+    { id: 'show-shortcuts', group: 'Help', label: 'Keyboard shortcuts', run: () => open('help') },
+  ]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'k') {
+        event.preventDefault();
+        setActions(getActions());
+        setOverlay(current => (current === 'palette' ? null : 'palette'));
+        return;
+      }
+      if (event.key === 'Escape') {
+        setOverlay(null);
+        return;
+      }
+      if (overlay || event.defaultPrevented || isTypingTarget(event.target)) return;
+      if (event.key === '?') {
+        event.preventDefault();
+        open('help');
+        return;
+      }
+      const action = findShortcut(event);
+      if (!action) return;
+      event.preventDefault();
+      action.run();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [overlay]);
+
+  if (overlay === 'palette') return <CommandPalette actions={actions} onClose={() => setOverlay(null)} />;
+  if (overlay === 'help') return <ShortcutHelp actions={actions} onClose={() => setOverlay(null)} />;
+  return null;
+}
+
+export default KeyboardShortcuts;
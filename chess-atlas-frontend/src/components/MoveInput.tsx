@@ -0,0 +1,53 @@
+import { useId, useState, type FormEvent } from 'react';
+import type { Key } from 'chessground/types';
+import { matchMoveText, type CandidateMove, type Promotion } from '../lib/candidateMoves';
+
+interface MoveInputProps {
+  candidates: CandidateMove[];
+  /** `promotion` is left out when the text didn't name the piece, so the parent can ask. */
+  onMove: (from: Key, to: Key, promotion?: Promotion) => void;
+}
+
+/** Type a move in SAN (Nf3, exd5, O-O, e8=Q) or UCI (g1f3, e7e8q), with the legal moves as suggestions. */
+function MoveInput({ candidates, onMove }: MoveInputProps) {
+  const listId = useId();
+  const [text, setText] = useState('');
+  const [error, setError] = useState('');
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const matches = matchMoveText(text, candidates);
+    if (matches.length === 0) {
+      setError(`"${text.trim()}" is not a legal move here.`);
+      return;
+    }
+    const [move] = matches;
+    onMove(move.from, move.to, matches.length === 1 ? move.promotion : undefined);
+    setText('');
+    setError('');
+  };
+
+  return (
+    <form className="move-input" onSubmit={handleSubmit}>
+      <input
+        type="text"
+        className="move-input-field"
+        list={listId}
+        value={text}
+        onChange={e => { setText(e.target.value); setError(''); }}
+        placeholder="Type a move, e.g. Nf3 or g1f3"
+        aria-label="Move in SAN or UCI"
+        aria-invalid={!!error}
+        autoComplete="off"
+        spellCheck={false}
+      />
+      <datalist id={listId}>
+        {candidates.map(move => <option key={move.san} value={move.san} />)}
+      </datalist>
+      <button type="submit" className="switch-button" disabled={!text.trim()}>Play</button>
+      {error && <p className="pgn-error" role="alert">{error}</p>}
+    </form>
+  );
+}
+
+export default MoveInput;
@@ -0,0 +1,75 @@
+import type { ReactNode } from 'react';
+import { splitFen } from '../lib/fen';
+import type { MoveNode, MoveTree } from '../lib/moveTree';
+
+interface MoveListProps {
+  tree: MoveTree;
+  currentId: number;
+  onSelect: (nodeId: number) => void;
+}
+
+/** "12." before White's moves; "12..." before Black's only when the line needs re-anchoring. */
+function moveNumber(tree: MoveTree, node: MoveNode, force: boolean): string | null {
+  const [, turn, , , , fullmove] = splitFen(tree.nodes[node.parentId!].fen);
+  if (turn === 'w') return `${fullmove}.`;
+  return force ? `${fullmove}...` : null;
+}
+
+/**
+ * PGN-style move list: the main line inline, with each alternative printed in
+ * parentheses straight after the move it replaces.
+ */
+function MoveList({ tree, currentId, onSelect }: MoveListProps) {
+  const renderLine = (firstId: number): ReactNode[] => {
+    const out: ReactNode[] = [];
+    let id: number | undefined = firstId;
+    let forceNumber = true;
+    while (id !== undefined) {
+      const node: MoveNode = tree.nodes[id];
+      const number = moveNumber(tree, node, forceNumber);
+      forceNumber = false;
+      out.push(
+        <span key={`m${id}`} className="move-pair">
+          {number && <span className="move-number">{number}</span>}
+          <button
+            type="button"
+            className={`move-san${currentId === id ? ' is-active' : ''}`}
+            onClick={() => onSelect(node.id)}
+          >
+            {node.san}
+          </button>
+        </span>,
+      );
+      if (node.comment) {
+        out.push(<span key={`c${id}`} className="move-comment">{node.comment}</span>);
+        forceNumber = true;
+      }
+      const parent = tree.nodes[node.parentId!];
+      if (parent.children[0] === id) {
+        for (const altId of parent.children.slice(1)) {
+          out.push(
+            <span key={`v${altId}`} className="move-variation">
+              {renderLine(altId)}
+            </span>,
+          );
+          forceNumber = true;
+        }
+      }
+      id = node.children[0];
+    }
+    return out;
+  };
+
+  const root = tree.nodes[tree.rootId];
+  if (root.children.length === 0) {
+    return <span className="placeholder-moves">Make a move to start...</span>;
+  }
+  return (
+    <>
+      {root.comment && <span className="move-comment">{root.comment}</span>}
+      {renderLine(root.children[0])}
+    </>
+  );
+}
+
+export default MoveList;
@@ -12,12 +12,30 @@ function Navbar() {
         >
           Analyzer
         </NavLink>
+        <NavLink
+          to="/batch"
+          className={({ isActive }) => `navbar-link${isActive ? ' active' : ''}`}
+        >
+          Batch
+        </NavLink>
         <NavLink
           to="/explorer"
           className={({ isActive }) => `navbar-link${isActive ? ' active' : ''}`}
         >
           Explorer
         </NavLink>
+        <NavLink
+          to="/history"
+          className={({ isActive }) => `navbar-link${isActive ? ' active' : ''}`}
+        >
+          History
+        </NavLink>
+        <NavLink
+          to="/settings"
+          className={({ isActive }) => `navbar-link${isActive ? ' active' : ''}`}
+        >
+          Settings
+        </NavLink>
       </div>
     </nav>
   );
@@ -0,0 +1,63 @@
+import { useState, useRef, type ChangeEvent } from 'react';
+
+interface PgnPanelProps {
+  /** Load the PGN; returns an error message, or null on success. */
+  onImport: (pgn: string) => string | null;
+  onExport: () => void;
+}
+
+function PgnPanel({ onImport, onExport }: PgnPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [text, setText] = useState('');
+  const [error, setError] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const load = (pgn: string) => {
+    const message = onImport(pgn);
+    setError(message ?? '');
+    if (!message) {
+      setText('');
+      setIsOpen(false);
+    }
+  };
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    const content = await file.text();
+    setText(content);
+    load(content);
+  };
+
+  return (
+    <div className="pgn-panel">
+      <div className="pgn-panel-buttons">
+        <button type="button" className={`switch-button${isOpen ? ' is-active' : ''}`}
+          onClick={() => setIsOpen(o => !o)} aria-expanded={isOpen}>Import PGN</button>
+        <button type="button" className="switch-button" onClick={onExport}>Export PGN</button>
+      </div>
+      {isOpen && (
+        <div className="pgn-import">
+          <textarea
+            className="pgn-textarea"
+            value={text}
+            onChange={e => setText(e.target.value)}
+            placeholder={'[Event "..."]\n\n1. e4 e5 (1... c5) 2. Nf3 *'}
+            rows={5}
+            spellCheck={false}
+          />
+          <div className="pgn-panel-buttons">
+            <button type="button" className="switch-button" onClick={() => load(text)} disabled={!text.trim()}>Load</button>
+            <button type="button" className="switch-button" onClick={() => fileInputRef.current?.click()}>Upload file</button>
+            <input ref={fileInputRef} type="file" accept=".pgn,application/x-chess-pgn,text/plain" hidden
+              onChange={e => void handleFile(e)} />
+          </div>
+          {error && <p className="pgn-error">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default PgnPanel;
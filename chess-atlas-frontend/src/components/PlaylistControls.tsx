@@ -0,0 +1,68 @@
+import { FEN_MATCH_MODES, type FenMatchMode } from '../lib/fenMatching';
+import type { PlaylistOptions, PlaylistSort } from '../lib/videoResults';
+
+interface PlaylistControlsProps {
+  options: PlaylistOptions;
+  onChange: (options: PlaylistOptions) => void;
+  /** Unlike the other options this one changes what is looked up, not just what is shown. */
+  matchMode: FenMatchMode;
+  onMatchModeChange: (mode: FenMatchMode) => void;
+}
+
+const SORT_LABELS: Record<PlaylistSort, string> = {
+  relevance: 'Relevance',
+  timestamp: 'Timestamp',
+  title: 'Title',
+  hits: 'Most hits',
+};
+
+/** Filter, sort and grouping for the video playlist. The parent owns the options so they outlive a position change. */
+function PlaylistControls({ options, onChange, matchMode, onMatchModeChange }: PlaylistControlsProps) {
+  const update = (patch: Partial<PlaylistOptions>) => onChange({ ...options, ...patch });
+
+  return (
+    <div className="playlist-controls">
+      <label className="playlist-match-mode">
+        Match
+        <select value={matchMode} onChange={e => onMatchModeChange(e.target.value as FenMatchMode)}>
+          {(Object.keys(FEN_MATCH_MODES) as FenMatchMode[]).map(mode => (
+            <option key={mode} value={mode}>{FEN_MATCH_MODES[mode]}</option>
+          ))}
+        </select>
+      </label>
+      <input
+        type="search"
+        className="playlist-filter-input"
+        placeholder="Filter by title or channel"
+        value={options.text}
+        onChange={e => update({ text: e.target.value })}
+        aria-label="Filter videos by title or channel"
+      />
+      <div className="playlist-controls-row">
+        <select
+          value={options.orientation}
+          onChange={e => update({ orientation: e.target.value as PlaylistOptions['orientation'] })}
+          aria-label="Board orientation in the video"
+        >
+          <option value="all">Both sides</option>
+          <option value="white">White</option>
+          <option value="black">Black</option>
+        </select>
+        <select value={options.sort} onChange={e => update({ sort: e.target.value as PlaylistSort })} aria-label="Sort videos">
+          {(Object.keys(SORT_LABELS) as PlaylistSort[]).map(key => (
+            <option key={key} value={key}>{SORT_LABELS[key]}</option>
+          ))}
+        </select>
+        <button
+          type="button"
+          className={`switch-button${options.grouped ? ' is-active' : ''}`}
+          onClick={() => update({ grouped: !options.grouped })}
+          aria-pressed={options.grouped}
+          title="One card per video"
+        >Group</button>
+      </div>
+    </div>
+  );
+}
+
+export default PlaylistControls;
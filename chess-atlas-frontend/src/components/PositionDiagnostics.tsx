@@ -0,0 +1,41 @@
+import type { PositionProblem } from '../lib/positionDiagnostics';
+
+interface PositionDiagnosticsProps {
+  problems: PositionProblem[];
+  /** Index of the problem whose squares are emphasised on the board, if any. */
+  focusedIndex: number | null;
+  onFocus: (index: number | null) => void;
+}
+
+/**
+ * Lists everything wrong with the detected position. Hovering or focusing a row
+ * tells the parent which problem's squares to single out on the board.
+ */
+function PositionDiagnostics({ problems, focusedIndex, onFocus }: PositionDiagnosticsProps) {
+  if (problems.length === 0) return null;
+
+  return (
+    <div className="position-diagnostics" role="status">
+      <span className="position-diagnostics-title">
+        {problems.length === 1 ? '1 problem' : `${problems.length} problems`} with this position
+      </span>
+      <ul>
+        {problems.map((problem, index) => (
+          <li
+            key={`${problem.code}-${index}`}
+            className={focusedIndex === index ? 'is-active' : ''}
+            tabIndex={problem.squares.length > 0 ? 0 : undefined}
+            onMouseEnter={() => onFocus(index)}
+            onMouseLeave={() => onFocus(null)}
+            onFocus={() => onFocus(index)}
+            onBlur={() => onFocus(null)}
+          >
+            {problem.message}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export default PositionDiagnostics;
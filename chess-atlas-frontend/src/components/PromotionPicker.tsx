@@ -0,0 +1,41 @@
+import type { Color } from 'chessground/types';
+import type { Promotion } from '../lib/candidateMoves';
+
+interface PromotionPickerProps {
+  color: Color;
+  onPick: (promotion: Promotion) => void;
+  onCancel: () => void;
+}
+
+const CHOICES: { promotion: Promotion; name: string; white: string; black: string }[] = [
+  { promotion: 'q', name: 'Queen', white: '♕', black: '♛' },
+  { promotion: 'r', name: 'Rook', white: '♖', black: '♜' },
+  { promotion: 'b', name: 'Bishop', white: '♗', black: '♝' },
+  { promotion: 'n', name: 'Knight', white: '♘', black: '♞' },
+];
+
+/** Laid over the board while a pawn waits on the last rank. */
+function PromotionPicker({ color, onPick, onCancel }: PromotionPickerProps) {
+  return (
+    <div className="promotion-picker" role="dialog" aria-label="Choose a promotion piece"
+      onKeyDown={e => { if (e.key === 'Escape') onCancel(); }}>
+      <div className="promotion-picker-choices">
+        {CHOICES.map((choice, index) => (
+          <button
+            key={choice.promotion}
+            type="button"
+            className="promotion-choice"
+            onClick={() => onPick(choice.promotion)}
+            aria-label={`Promote to ${choice.name.toLowerCase()}`}
+            autoFocus={index === 0}
+          >
+            <span aria-hidden="true">{color === 'white' ? choice.white : choice.black}</span>
+          </button>
+        ))}
+      </div>
+      <button type="button" className="switch-button" onClick={onCancel}>Cancel</button>
+    </div>
+  );
+}
+
+export default PromotionPicker;
@@ -0,0 +1,50 @@
+import { useCallback, useEffect, useMemo, useState, type ReactNode } from 'react';
+import { SettingsContext } from '../hooks/useSettings';
+import { clearLookupCache } from '../lib/lookupCache';
+import { DEFAULT_SETTINGS, getSettings, storeSettings, type Settings } from '../lib/settings';
+
+const DARK_QUERY = '(prefers-color-scheme: dark)';
+
+const systemPrefersDark = () => typeof window.matchMedia === 'function' && window.matchMedia(DARK_QUERY).matches;
+
+/**
+ * Owns the persisted settings and mirrors the visual ones onto <html> as data
+ * attributes, which App.css keys the dark theme, board colors and piece set off.
+ */
+function SettingsProvider({ children }: { children: ReactNode }) {
+  const [settings, setSettings] = useState<Settings>(getSettings);
+  const [prefersDark, setPrefersDark] = useState(systemPrefersDark);
+
+  useEffect(() => {
+    if (typeof window.matchMedia !== 'function') return;
+    const query = window.matchMedia(DARK_QUERY);
+    const onChange = (event: MediaQueryListEvent) => setPrefersDark(event.matches);
+    query.addEventListener('change', onChange);
+    return () => query.removeEventListener('change', onChange);
+  }, []);
+
+  const isDark = settings.colorScheme === 'dark' || (settings.colorScheme === 'system' && prefersDark);
+
+  useEffect(() => {
+    const root = document.documentElement;
+    root.dataset.theme = isDark ? 'dark' : 'light';
+    root.dataset.boardTheme = settings.boardTheme;
+    root.dataset.pieceSet = settings.pieceSet;
+  }, [isDark, settings.boardTheme, settings.pieceSet]);
+
+  const apply = useCallback((next: Settings) => {
+    // Results cached from one lookup server say nothing about another
+    if (next.lookupApiUrl !== getSettings().lookupApiUrl) clearLookupCache();
+    setSettings(storeSettings(next));
+  }, []);
+
+  const value = useMemo(() => ({
+    settings,
+    updateSettings: (patch: Partial<Settings>) => apply({ ...getSettings(), ...patch }),
+    resetSettings: () => apply(DEFAULT_SETTINGS),
+  }), [settings, apply]);
+
+  return <SettingsContext.Provider value={value}>{children}</SettingsContext.Provider>;
+}
+
+export default SettingsProvider;
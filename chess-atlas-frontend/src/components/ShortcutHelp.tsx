@@ -0,0 +1,54 @@
+import { formatKey, type ShortcutAction } from '../lib/shortcuts';
+
+interface ShortcutHelpProps {
+  actions: ShortcutAction[];
+  onClose: () => void;
+}
+
+/** The "?" overlay: every bound key on the current page, grouped by where it applies. */
+function ShortcutHelp({ actions, onClose }: ShortcutHelpProps) {
+  const groups = new Map<string, ShortcutAction[]>();
+  for (const action of actions) {
+    if (!action.key) continue;
+    if (!groups.has(action.group)) groups.set(action.group, []);
+    groups.get(action.group)!.push(action);
+  }
+
+  return (
+    <div className="shortcut-backdrop" onClick={onClose}>
+      <div className="shortcut-help" role="dialog" aria-modal="true" aria-label="Keyboard shortcuts"
+        onClick={e => e.stopPropagation()}>
+        <div className="shortcut-help-header">
+          <h2>Keyboard shortcuts</h2>
+          <button type="button" className="icon-button" onClick={onClose} aria-label="Close">&times;</button>
+        </div>
+        <dl className="shortcut-help-list">
+          <div>
+            <dt><kbd>Ctrl</kbd> <kbd>K</kbd></dt>
+            <dd>Command palette</dd>
+          </div>
+          <div>
+            <dt><kbd>?</kbd></dt>
+            <dd>Show this help</dd>
+          </div>
+        </dl>
+        {[...groups].map(([group, items]) => (
+          <section key={group}>
+            <h3>{group}</h3>
+            <dl className="shortcut-help-list">
+              {items.map(action => (
+                <div key={action.id} className={action.disabled ? 'is-disabled' : ''}>
+                  <dt><kbd>{formatKey(action.key!)}</kbd></dt>
+                  <dd>{action.label}</dd>
+                </div>
+              ))}
+            </dl>
+          </section>
+        ))}
+        <p className="shortcut-help-note">Shortcuts are paused while you type in a text field.</p>
+      </div>
+    </div>
+  );
+}
+
+export default ShortcutHelp;
@@ -0,0 +1,67 @@
+import type { DragEvent } from 'react';
+import type { PieceLetter } from '../lib/fen';
+
+export type EditorTool = PieceLetter | 'erase';
+
+export const SPARE_PIECE_MIME = 'application/x-chess-piece';
+
+const PIECE_GLYPHS: Record<PieceLetter, string> = {
+  K: '♔', Q: '♕', R: '♖', B: '♗', N: '♘', P: '♙',
+  k: '♚', q: '♛', r: '♜', b: '♝', n: '♞', p: '♟',
+};
+
+const WHITE_PIECES: PieceLetter[] = ['K', 'Q', 'R', 'B', 'N', 'P'];
+const BLACK_PIECES: PieceLetter[] = ['k', 'q', 'r', 'b', 'n', 'p'];
+
+interface SparePiecePaletteProps {
+  activeTool: EditorTool | null;
+  onToolChange: (tool: EditorTool | null) => void;
+}
+
+/**
+ * Spare pieces for the board editor. Click a piece to arm it (then click squares
+ * to place it), or drag it straight onto the board.
+ */
+function SparePiecePalette({ activeTool, onToolChange }: SparePiecePaletteProps) {
+  const toggleTool = (tool: EditorTool) => onToolChange(activeTool === tool ? null : tool);
+
+  const handleDragStart = (event: DragEvent<HTMLButtonElement>, letter: PieceLetter) => {
+    event.dataTransfer.setData(SPARE_PIECE_MIME, letter);
+    event.dataTransfer.effectAllowed = 'copy';
+  };
+
+  const renderRow = (letters: PieceLetter[]) => (
+    <div className="spare-piece-row">
+      {letters.map(letter => (
+        <button
+          key={letter}
+          type="button"
+          draggable
+          className={`spare-piece${activeTool === letter ? ' is-active' : ''}`}
+          onClick={() => toggleTool(letter)}
+          onDragStart={event => handleDragStart(event, letter)}
+          aria-pressed={activeTool === letter}
+          title={`Place ${letter === letter.toUpperCase() ? 'white' : 'black'} piece (${letter})`}
+        >
+          {PIECE_GLYPHS[letter]}
+        </button>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="spare-piece-palette">
+      {renderRow(WHITE_PIECES)}
+      {renderRow(BLACK_PIECES)}
+      <button
+        type="button"
+        className={`switch-button spare-piece-erase${activeTool === 'erase' ? ' is-active' : ''}`}
+        onClick={() => toggleTool('erase')}
+        aria-pressed={activeTool === 'erase'}
+        title="Click squares to clear them"
+      >Clear square</button>
+    </div>
+  );
+}
+
+export default SparePiecePalette;
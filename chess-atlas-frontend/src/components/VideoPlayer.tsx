@@ -0,0 +1,102 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { createPlayer, PLAYER_STATE, type YouTubePlayer } from '../lib/youtubePlayer';
+
+interface VideoPlayerProps {
+  videoId: string;
+  startSeconds: number;
+  /** In "watch all" mode, how long to play before `onClipEnd`; null plays on uninterrupted. */
+  clipSeconds: number | null;
+  onClipEnd: () => void;
+}
+
+const SEEK_STEP_SECONDS = 10;
+const CLIP_POLL_MS = 500;
+
+/** One embedded video driven through the IFrame Player API, with replay and ±10 s controls. */
+function VideoPlayer({ videoId, startSeconds, clipSeconds, onClipEnd }: VideoPlayerProps) {
+  const hostRef = useRef<HTMLDivElement>(null);
+  const playerRef = useRef<YouTubePlayer | null>(null);
+  const onClipEndRef = useRef(onClipEnd);
+  const clipEndedRef = useRef(false);
+  const [isReady, setIsReady] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    onClipEndRef.current = onClipEnd;
+  }, [onClipEnd]);
+
+  // Fires at most once per clip, whichever of clip timer, video end or error comes first
+  const finishClip = useCallback(() => {
+    if (clipEndedRef.current) return;
+    clipEndedRef.current = true;
+    onClipEndRef.current();
+  }, []);
+
+  useEffect(() => {
+    const host = hostRef.current;
+    if (!host) return;
+    // The API swaps this node for its iframe, so give it one React doesn't manage
+    const target = document.createElement('div');
+    host.appendChild(target);
+    clipEndedRef.current = false;
+    setIsReady(false);
+    setError('');
+    const dispose = createPlayer(target, videoId, startSeconds, {
+      onReady: player => {
+        playerRef.current = player;
+        setIsReady(true);
+      },
+      onStateChange: state => {
+        if (state === PLAYER_STATE.ENDED) finishClip();
+      },
+      onError: () => {
+        setError("This video can't be played here.");
+        finishClip();
+      },
+    });
+    return () => {
+      dispose();
+      playerRef.current = null;
+      host.replaceChildren();
+    };
+  }, [videoId, startSeconds, finishClip]);
+
+  useEffect(() => {
+    if (clipSeconds === null || !isReady) return;
+    const timer = setInterval(() => {
+      const player = playerRef.current;
+      if (player && player.getCurrentTime() >= startSeconds + clipSeconds) finishClip();
+    }, CLIP_POLL_MS);
+    return () => clearInterval(timer);
+  }, [clipSeconds, isReady, startSeconds, finishClip]);
+
+  const seek = (seconds: number) => {
+    const player = playerRef.current;
+    if (!player) return;
+    player.seekTo(Math.max(0, seconds), true);
+    player.playVideo();
+  };
+
+  // The player only exists once the YouTube API has loaded
+  const skip = (deltaSeconds: number) => {
+    const player = playerRef.current;
+    if (player) seek(player.getCurrentTime() + deltaSeconds);
+  };
+
+  return (
+    <div className="video-player">
+      <div className="video-card-embed" ref={hostRef} />
+      {error && <p className="video-player-error">{error}</p>}
+      <div className="video-player-controls">
+        <button type="button" className="switch-button" disabled={!isReady}
+          onClick={() => seek(startSeconds)} title="Back to the moment this position appears">Replay</button>
+        <button type="button" className="switch-button" disabled={!isReady}
+          onClick={() => skip(-SEEK_STEP_SECONDS)}>−10 s</button>
+        <button type="button" className="switch-button" disabled={!isReady}
+          onClick={() => skip(SEEK_STEP_SECONDS)}>+10 s</button>
+      </div>
+    </div>
+  );
+}
+
+export default VideoPlayer;
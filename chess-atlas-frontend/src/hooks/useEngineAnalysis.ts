@@ -0,0 +1,63 @@
+import { useState, useEffect, useRef } from 'react';
+import {
+  createUciEngine,
+  isEngineSafeFen,
+  type EngineLine,
+  type SearchOptions,
+  type UciEngine,
+} from '../lib/uciEngine';
+
+export interface EngineAnalysis {
+  lines: EngineLine[];
+  depth: number;
+  isRunning: boolean;
+  error: string;
+}
+
+const IDLE: EngineAnalysis = { lines: [], depth: 0, isRunning: false, error: '' };
+
+/**
+ * Run the local engine on `fen` while `enabled` is true. The worker is created on
+ * first use and kept alive across positions until the component unmounts.
+ */
+export function useEngineAnalysis(fen: string | null, enabled: boolean, options: SearchOptions): EngineAnalysis {
+  const [analysis, setAnalysis] = useState<EngineAnalysis>(IDLE);
+  const engineRef = useRef<UciEngine | null>(null);
+  const { multiPv, limit } = options;
+  const limitKind = limit.kind;
+  const limitValue = limit.kind === 'depth' ? limit.depth : limit.milliseconds;
+
+  useEffect(() => {
+    if (!enabled || !fen) {
+      engineRef.current?.stop();
+      setAnalysis(prev => ({ ...prev, isRunning: false }));
+      return;
+    }
+    if (!isEngineSafeFen(fen)) {
+      engineRef.current?.stop();
+      setAnalysis({ ...IDLE, error: 'This position is not legal, so the engine cannot analyse it.' });
+      return;
+    }
+    if (!engineRef.current) {
+      engineRef.current = createUciEngine(message => {
+        engineRef.current?.destroy();
+        engineRef.current = null;
+        setAnalysis({ ...IDLE, error: `Engine error: ${message}` });
+      });
+    }
+    setAnalysis({ ...IDLE, isRunning: true });
+    const searchLimit = limitKind === 'depth'
+      ? { kind: 'depth' as const, depth: limitValue }
+      : { kind: 'time' as const, milliseconds: limitValue };
+    engineRef.current.analyze(fen, { multiPv, limit: searchLimit }, update => {
+      setAnalysis({ lines: update.lines, depth: update.depth, isRunning: !update.done, error: '' });
+    });
+  }, [fen, enabled, multiPv, limitKind, limitValue]);
+
+  useEffect(() => () => {
+    engineRef.current?.destroy();
+    engineRef.current = null;
+  }, []);
+
+  return analysis;
+}
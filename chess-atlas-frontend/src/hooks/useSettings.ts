@@ -0,0 +1,17 @@
+import { createContext, useContext } from 'react';
+import type { Settings } from '../lib/settings';
+
+export interface SettingsContextValue {
+  settings: Settings;
+  updateSettings: (patch: Partial<Settings>) => void;
+  resetSettings: () => void;
+}
+
+export const SettingsContext = createContext<SettingsContextValue | null>(null);
+
+/** The shared, persisted preferences; only usable under SettingsProvider. */
+export function useSettings(): SettingsContextValue {
+  const value = useContext(SettingsContext);
+  if (!value) throw new Error('useSettings must be used inside SettingsProvider');
+  return value;
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { completeFen, getFileValidationError, MAX_SOURCE_SIZE_BYTES, UNSUPPORTED_FORMAT_MESSAGE } from './analyzeBoard';
+
+const fileOf = (name: string, type: string, size = 1024): File => {
+  const file = new File(['x'], name, { type });
+  Object.defineProperty(file, 'size', { value: size });
+  return file;
+};
+
+describe('getFileValidationError', () => {
+  it('accepts the supported image types', () => {
+    expect(getFileValidationError(fileOf('board.jpg', 'image/jpeg'))).toBeNull();
+    expect(getFileValidationError(fileOf('board.png', 'image/png'))).toBeNull();
+    expect(getFileValidationError(fileOf('board.heic', 'image/heic'))).toBeNull();
+  });
+
+  it('rejects other file types', () => {
+    expect(getFileValidationError(fileOf('notes.pdf', 'application/pdf'))).toBe(UNSUPPORTED_FORMAT_MESSAGE);
+    expect(getFileValidationError(fileOf('board.gif', 'image/gif'))).toBe(UNSUPPORTED_FORMAT_MESSAGE);
+  });
+
+  it('falls back to the extension when the browser reports no type', () => {
+    expect(getFileValidationError(fileOf('board.WEBP', ''))).toBeNull();
+    expect(getFileValidationError(fileOf('board.txt', ''))).toBe(UNSUPPORTED_FORMAT_MESSAGE);
+  });
+
+  it('rejects files over the size limit and names both sizes', () => {
+    const message = getFileValidationError(fileOf('huge.jpg', 'image/jpeg', MAX_SOURCE_SIZE_BYTES + 1));
+    expect(message).toBe('Image is too large (50.0 MB). Please use a file smaller than 50.0 MB.');
+  });
+
+  it('allows a file exactly at the limit', () => {
+    expect(getFileValidationError(fileOf('edge.jpg', 'image/jpeg', MAX_SOURCE_SIZE_BYTES))).toBeNull();
+  });
+});
+
+describe('completeFen', () => {
+  it('infers every field of a placement-only FEN', () => {
+    expect(completeFen('4k3/4Q3/8/8/8/8/8/4K3')).toBe('4k3/4Q3/8/8/8/8/8/4K3 b - - 0 1');
+    expect(completeFen('r3k2r/8/8/8/8/8/8/R3K2R', 'b')).toBe('r3k2r/8/8/8/8/8/8/R3K2R b KQkq - 0 1');
+  });
+
+  it('keeps the fields a short FEN does give', () => {
+    expect(completeFen('r3k2r/8/8/8/8/8/8/R3K2R w')).toBe('r3k2r/8/8/8/8/8/8/R3K2R w KQkq - 0 1');
+    expect(completeFen('r3k2r/8/8/8/8/8/8/R3K2R b k -')).toBe('r3k2r/8/8/8/8/8/8/R3K2R b k - 0 1');
+  });
+
+  it('leaves a full FEN alone', () => {
+    const fen = 'r3k2r/8/8/8/8/8/8/R3K2R w - - 5 30';
+    expect(completeFen(fen)).toBe(fen);
+  });
+});
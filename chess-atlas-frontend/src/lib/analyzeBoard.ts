@@ -0,0 +1,64 @@
+import type { FileRejection } from 'react-dropzone';
+import { fenFromInference, inferFenFields } from './fenInference';
+
+export type Orientation = 'white' | 'black';
+
+/** What the server accepts; photos are downscaled well below this before upload. */
+export const MAX_UPLOAD_SIZE_BYTES = 12 * 1024 * 1024;
+/** Largest original photo we are willing to decode in the browser. */
+export const MAX_SOURCE_SIZE_BYTES = 50 * 1024 * 1024;
+// HEIC and AVIF only decode where the browser supports them; prepareImage reports when it can't
+export const ACCEPTED_IMAGE_TYPES = {
+  'image/jpeg': ['.jpeg', '.jpg'],
+  'image/png': ['.png'],
+  'image/webp': ['.webp'],
+  'image/heic': ['.heic'],
+  'image/heif': ['.heif'],
+  'image/avif': ['.avif'],
+};
+export const UNSUPPORTED_FORMAT_MESSAGE = 'Unsupported image format. Please upload a JPG, PNG, WebP, HEIC or AVIF image.';
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  const mb = bytes / (1024 * 1024);
+  return `${mb.toFixed(1)} MB`;
+};
+
+// Some browsers leave File.type empty for HEIC, so fall back to the extension
+const isAcceptedImageType = (file: File): boolean => {
+  const fileType = file.type.toLowerCase();
+  if (fileType) return Object.keys(ACCEPTED_IMAGE_TYPES).includes(fileType);
+  const extension = file.name.slice(file.name.lastIndexOf('.')).toLowerCase();
+  return Object.values(ACCEPTED_IMAGE_TYPES).some(extensions => extensions.includes(extension));
+};
+
+/** Checks the original photo; the upload itself is produced by prepareImage. */
+export const getFileValidationError = (file: File): string | null => {
+  if (!isAcceptedImageType(file)) return UNSUPPORTED_FORMAT_MESSAGE;
+  if (file.size > MAX_SOURCE_SIZE_BYTES) {
+    return `Image is too large (${formatBytes(file.size)}). Please use a file smaller than ${formatBytes(MAX_SOURCE_SIZE_BYTES)}.`;
+  }
+  return null;
+};
+
+export const getDropRejectionMessage = (rejection: FileRejection | undefined): string => {
+  const firstError = rejection?.errors[0];
+  if (!firstError) return 'Could not upload that file.';
+  if (firstError.code === 'file-invalid-type') return UNSUPPORTED_FORMAT_MESSAGE;
+  if (firstError.code === 'file-too-large') return `Image is too large. Please use a file smaller than ${formatBytes(MAX_SOURCE_SIZE_BYTES)}.`;
+  return firstError.message;
+};
+
+/**
+ * The API sometimes returns placement only, or stops after a few fields; fill in
+ * whatever is missing from what the board shows.
+ */
+export function completeFen(fen: string, fallbackTurn: 'w' | 'b' = 'w'): string {
+  const fields = fen.trim().split(/\s+/);
+  if (fields.length >= 6) return fen;
+  const [placement, turn] = fields;
+  const inferred = inferFenFields(placement, fallbackTurn);
+  if (turn === undefined) return fenFromInference(placement, inferred);
+  const defaults = [placement, turn, inferred.castling, inferred.enPassant, '0', '1'];
+  return defaults.map((fallback, i) => fields[i] ?? fallback).join(' ');
+}
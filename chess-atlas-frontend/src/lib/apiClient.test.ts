@@ -0,0 +1,60 @@
+import { AxiosError, AxiosHeaders, CanceledError, type AxiosResponse, type InternalAxiosRequestConfig } from 'axios';
+import { describe, expect, it } from 'vitest';
+import { ApiResponseError, getApiErrorMessage, normalizeApiError } from './apiClient';
+import { UNSUPPORTED_FORMAT_MESSAGE } from './analyzeBoard';
+import { ImagePreparationError } from './image';
+
+const config = { headers: new AxiosHeaders() } as InternalAxiosRequestConfig;
+
+function httpError(status: number, data: unknown = {}): AxiosError {
+  const response = { data, status, statusText: String(status), headers: {}, config } as AxiosResponse;
+  return new AxiosError(`Request failed with status code ${status}`, AxiosError.ERR_BAD_REQUEST, config, null, response);
+}
+
+describe('getApiErrorMessage', () => {
+  it('prefers the server message on a 400', () => {
+    expect(getApiErrorMessage(httpError(400, { message: 'No board found.' }))).toBe('No board found.');
+    expect(getApiErrorMessage(httpError(400))).toMatch(/could not be processed/);
+  });
+
+  it('maps the statuses the analyze endpoint is known to send', () => {
+    expect(getApiErrorMessage(httpError(413))).toMatch(/too large/);
+    expect(getApiErrorMessage(httpError(415))).toBe(UNSUPPORTED_FORMAT_MESSAGE);
+    expect(getApiErrorMessage(httpError(429))).toMatch(/Too many requests/);
+    expect(getApiErrorMessage(httpError(503))).toMatch(/server returned an error/);
+  });
+
+  it('falls back to the status code for anything else', () => {
+    expect(getApiErrorMessage(httpError(418))).toBe('Upload failed (HTTP 418).');
+  });
+
+  it('describes timeouts and network failures', () => {
+    expect(getApiErrorMessage(new AxiosError('timeout', 'ECONNABORTED', config))).toMatch(/timed out/);
+    expect(getApiErrorMessage(new AxiosError('Network Error', AxiosError.ERR_NETWORK, config))).toMatch(/^Network error/);
+  });
+
+  it('gives a generic message for non-axios errors', () => {
+    expect(getApiErrorMessage(new Error('boom'))).toBe('Upload failed. Please try again.');
+  });
+});
+
+describe('normalizeApiError', () => {
+  it('flags aborted requests as cancelled with nothing to show', () => {
+    expect(normalizeApiError(new CanceledError())).toEqual({ cancelled: true, message: '' });
+    expect(normalizeApiError(new DOMException('Aborted', 'AbortError'))).toEqual({ cancelled: true, message: '' });
+  });
+
+  it('passes our own error messages through unchanged', () => {
+    expect(normalizeApiError(new ApiResponseError('Lookup failed.'))).toEqual({ cancelled: false, message: 'Lookup failed.' });
+    expect(normalizeApiError(new ImagePreparationError('Could not read the image.')))
+      .toEqual({ cancelled: false, message: 'Could not read the image.' });
+  });
+
+  it('keeps the HTTP status alongside the message', () => {
+    expect(normalizeApiError(httpError(500))).toEqual({
+      cancelled: false,
+      message: 'The analysis server returned an error. Please try again in a minute.',
+      status: 500,
+    });
+  });
+});
@@ -0,0 +1,232 @@
+import axios, { type AxiosProgressEvent } from 'axios';
+import { UNSUPPORTED_FORMAT_MESSAGE, type Orientation } from './analyzeBoard';
+import { canonicalFen, DEFAULT_FEN_MATCH_MODE, type FenMatchMode } from './fenMatching';
+import { ImagePreparationError } from './image';
+import { getSettings } from './settings';
+
+export const DEFAULT_ANALYZE_API_URL =
+  import.meta.env.VITE_API_URL ?? 'https://api.chess-atlas.com/api/v1/analyze-board';
+export const DEFAULT_LOOKUP_API_URL =
+  import.meta.env.VITE_LOOKUP_API_URL ?? 'https://api.chess-atlas.com/api/v1/lookup-position';
+
+export const OEMBED_URL = 'https://www.youtube.com/oembed';
+
+// Endpoints and timeouts can be overridden on the Settings page, so read them per request
+export const analyzeApiUrl = () => getSettings().analyzeApiUrl || DEFAULT_ANALYZE_API_URL;
+export const lookupApiUrl = () => getSettings().lookupApiUrl || DEFAULT_LOOKUP_API_URL;
+
+const OEMBED_TIMEOUT_MS = 10000;
+const MAX_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 800;
+const MAX_RETRY_DELAY_MS = 10000;
+
+export interface BoardAnalysis {
+  fen: string;
+  cropped_image: string;
+  /** Per-square classifier confidence and top-k guesses; only sent by newer backends. */
+  square_predictions?: unknown;
+}
+
+export interface VideoResult {
+  video_id: string;
+  timestamp_seconds: number;
+  orientation: 'white' | 'black';
+}
+
+/** What oEmbed tells us about a video; the channel is blank when YouTube leaves it out. */
+export interface VideoDetails {
+  title: string;
+  channel: string;
+}
+
+/**
+ * Every request goes through this instance, so the dev/test mock backend
+ * (src/mocks/mockBackend.ts) can take over by swapping its adapter.
+ */
+export const apiHttp = axios.create();
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+}
+
+export interface LookupOptions extends RequestOptions {
+  /** Which FEN fields the server should compare; see fenMatching.ts. */
+  match?: FenMatchMode;
+}
+
+export interface AnalyzeBoardOptions extends RequestOptions {
+  onUploadProgress?: (event: AxiosProgressEvent) => void;
+}
+
+/** The server answered, but not with something we can use: a status "error" envelope or a malformed body. */
+export class ApiResponseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ApiResponseError';
+  }
+}
+
+export interface ApiFailure {
+  /** The request was aborted on purpose (superseded or unmounted); nothing should be shown. */
+  cancelled: boolean;
+  message: string;
+  status?: number;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const UNEXPECTED_RESPONSE = 'The server sent an unexpected response. Please try again.';
+
+/** Unwrap the `{ status, data, message }` envelope every endpoint uses. */
+function unwrapEnvelope(body: unknown): unknown {
+  if (!isRecord(body)) throw new ApiResponseError(UNEXPECTED_RESPONSE);
+  if (body.status !== 'success') {
+    const message = typeof body.message === 'string' && body.message ? body.message : 'An unknown error occurred.';
+    throw new ApiResponseError(message);
+  }
+  return body.data;
+}
+
+function parseBoardAnalysis(body: unknown): BoardAnalysis {
+  const data = unwrapEnvelope(body);
+  if (!isRecord(data) || typeof data.fen !== 'string' || !data.fen.trim() || typeof data.cropped_image !== 'string') {
+    throw new ApiResponseError(UNEXPECTED_RESPONSE);
+  }
+  return { fen: data.fen.trim(), cropped_image: data.cropped_image, square_predictions: data.square_predictions };
+}
+
+const isVideoResult = (value: unknown): value is VideoResult =>
+  isRecord(value)
+  && typeof value.video_id === 'string' && value.video_id.length > 0
+  && typeof value.timestamp_seconds === 'number' && Number.isFinite(value.timestamp_seconds)
+  && (value.orientation === 'white' || value.orientation === 'black');
+
+function parseVideoResults(body: unknown): VideoResult[] {
+  const data = unwrapEnvelope(body);
+  if (!Array.isArray(data)) throw new ApiResponseError(UNEXPECTED_RESPONSE);
+  const results = data.filter(isVideoResult);
+  // One bad row shouldn't hide every other video for the position, so malformed rows are just dropped
+  return results;
+}
+
+const isCancelledRequest = (err: unknown): boolean =>
+  axios.isCancel(err) || (err instanceof DOMException && err.name === 'AbortError');
+
+const isRetryable = (err: unknown): boolean => {
+  if (!axios.isAxiosError(err) || !err.response) return false;
+  const { status } = err.response;
+  return status === 429 || status >= 500;
+};
+
+/** Retry-After in seconds when the server sent one, else exponential backoff with jitter. */
+const retryDelay = (err: unknown, attempt: number): number => {
+  const retryAfter = axios.isAxiosError(err) ? Number(err.response?.headers['retry-after']) : NaN;
+  if (Number.isFinite(retryAfter) && retryAfter >= 0) return Math.min(MAX_RETRY_DELAY_MS, retryAfter * 1000);
+  const backoff = RETRY_BASE_DELAY_MS * 2 ** attempt;
+  return Math.min(MAX_RETRY_DELAY_MS, backoff / 2 + Math.random() * backoff / 2);
+};
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) { reject(new DOMException('Aborted', 'AbortError')); return; }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/** Run `request`, retrying on 429 and 5xx responses. Aborting `signal` stops both the request and any pending wait. */
+async function withRetry<T>(request: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await request();
+    } catch (err) {
+      if (attempt >= MAX_RETRIES || !isRetryable(err) || signal?.aborted) throw err;
+      await sleep(retryDelay(err, attempt), signal);
+    }
+  }
+}
+
+export async function analyzeBoard(
+  imageFile: File,
+  orientation: Orientation,
+  { signal, onUploadProgress }: AnalyzeBoardOptions = {},
+): Promise<BoardAnalysis> {
+  const formData = new FormData();
+  formData.append('image', imageFile);
+  formData.append('orientation', orientation === 'white' ? 'White' : 'Black');
+  const body = await withRetry(async () => {
+    const response = await apiHttp.post<unknown>(analyzeApiUrl(), formData, {
+      timeout: getSettings().analyzeTimeoutSeconds * 1000,
+      signal,
+      onUploadProgress,
+    });
+    return response.data;
+  }, signal);
+  return parseBoardAnalysis(body);
+}
+
+export async function lookupPosition(
+  fen: string,
+  { signal, match = DEFAULT_FEN_MATCH_MODE }: LookupOptions = {},
+): Promise<VideoResult[]> {
+  const params = { fen: canonicalFen(fen), match };
+  const body = await withRetry(async () => {
+    const response = await apiHttp.get<unknown>(lookupApiUrl(), {
+      params,
+      timeout: getSettings().lookupTimeoutSeconds * 1000,
+      signal,
+    });
+    return response.data;
+  }, signal);
+  return parseVideoResults(body);
+}
+
+/** Video title and channel from YouTube's oEmbed endpoint. Not retried: a missing title only costs a label. */
+export async function fetchVideoDetails(videoId: string, { signal }: RequestOptions = {}): Promise<VideoDetails> {
+  const response = await apiHttp.get<unknown>(OEMBED_URL, {
+    params: { url: `https://www.youtube.com/watch?v=${videoId}`, format: 'json' },
+    timeout: OEMBED_TIMEOUT_MS,
+    signal,
+  });
+  const body = response.data;
+  if (!isRecord(body) || typeof body.title !== 'string') throw new ApiResponseError(UNEXPECTED_RESPONSE);
+  return { title: body.title, channel: typeof body.author_name === 'string' ? body.author_name : '' };
+}
+
+export const getApiErrorMessage = (err: unknown): string => {
+  if (!axios.isAxiosError(err)) return 'Upload failed. Please try again.';
+  if (err.response) {
+    const status = err.response.status;
+    const responseData = err.response.data as { message?: string } | undefined;
+    const serverMessage = responseData?.message;
+    if (status === 400) return serverMessage || 'The image could not be processed. Try another photo with the full board visible.';
+    if (status === 413) return 'The uploaded image is too large for the server. Try resizing the photo and upload again.';
+    if (status === 415) return UNSUPPORTED_FORMAT_MESSAGE;
+    if (status === 429) return 'Too many requests right now. Please wait a moment and try again.';
+    if (status >= 500) return 'The analysis server returned an error. Please try again in a minute.';
+    return serverMessage || `Upload failed (HTTP ${status}).`;
+  }
+  if (err.code === 'ECONNABORTED') return 'Upload timed out. Please try a smaller image or check your connection.';
+  if (err.code === 'ERR_NETWORK') {
+    const origin = typeof window !== 'undefined' ? window.location.origin : 'this site';
+    return `Network error contacting the API from ${origin}. If you are testing from mobile on local dev, this is often a CORS/origin issue.`;
+  }
+  return err.message || 'Upload failed. Please try again.';
+};
+
+/** The one place any error from an API call (or the image preparation before it) becomes something to show. */
+export function normalizeApiError(err: unknown): ApiFailure {
+  if (isCancelledRequest(err)) return { cancelled: true, message: '' };
+  if (err instanceof ApiResponseError || err instanceof ImagePreparationError) {
+    return { cancelled: false, message: err.message };
+  }
+  const status = axios.isAxiosError(err) ? err.response?.status : undefined;
+  return { cancelled: false, message: getApiErrorMessage(err), status };
+}
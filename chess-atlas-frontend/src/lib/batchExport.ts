@@ -0,0 +1,39 @@
+import { splitFen } from './fen';
+
+export interface ExportablePosition {
+  name: string;
+  fen: string;
+}
+
+const csvField = (value: string): string =>
+  /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+const pgnTagValue = (value: string): string => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+
+export function toCsv(positions: ExportablePosition[]): string {
+  const rows = positions.map(p => `${csvField(p.name)},${csvField(p.fen)}`);
+  return ['file,fen', ...rows].join('\n') + '\n';
+}
+
+/** EPD: the first four FEN fields plus an `id` opcode naming the source image. */
+export function toEpd(positions: ExportablePosition[]): string {
+  return positions
+    .map(p => `${splitFen(p.fen).slice(0, 4).join(' ')} id "${pgnTagValue(p.name)}";`)
+    .join('\n') + '\n';
+}
+
+/** One PGN game per position, each starting from its FEN with no moves. */
+export function toMultiGamePgn(positions: ExportablePosition[]): string {
+  return positions
+    .map((p, i) => [
+      `[Event "${pgnTagValue(p.name)}"]`,
+      '[Site "Chess Atlas"]',
+      `[Round "${i + 1}"]`,
+      '[Result "*"]',
+      '[SetUp "1"]',
+      `[FEN "${pgnTagValue(p.fen)}"]`,
+      '',
+      '*',
+    ].join('\n'))
+    .join('\n\n') + '\n';
+}
@@ -0,0 +1,56 @@
+import { Chess } from 'chess.js';
+import type { Color, Key, Role } from 'chessground/types';
+import { readPieces, splitFen } from './fen';
+
+const ROLE_ORDER: Role[] = ['king', 'queen', 'rook', 'bishop', 'knight', 'pawn'];
+
+const ROLE_NAMES: Record<Role, [singular: string, plural: string]> = {
+  king: ['King', 'Kings'],
+  queen: ['Queen', 'Queens'],
+  rook: ['Rook', 'Rooks'],
+  bishop: ['Bishop', 'Bishops'],
+  knight: ['Knight', 'Knights'],
+  pawn: ['Pawn', 'Pawns'],
+};
+
+/** "King g1, Rooks a1 f1, Pawns a2 b2" for one side, squares in file-then-rank order. */
+function describeSide(squaresByRole: Map<Role, Key[]>): string {
+  const parts = ROLE_ORDER.flatMap(role => {
+    const squares = squaresByRole.get(role);
+    if (!squares) return [];
+    const [singular, plural] = ROLE_NAMES[role];
+    return [`${squares.length === 1 ? singular : plural} ${[...squares].sort().join(' ')}`];
+  });
+  return parts.length > 0 ? parts.join(', ') : 'no pieces';
+}
+
+/**
+ * Plain-text reading of a position for screen readers: whose move it is, each
+ * side's pieces, the last move and whether the side to move is in check (or
+ * mated). Check is only reported for positions chess.js accepts.
+ */
+export function describePosition(fen: string, lastMoveSan?: string): string {
+  const bySide: Record<Color, Map<Role, Key[]>> = { white: new Map(), black: new Map() };
+  for (const [square, piece] of readPieces(fen)) {
+    const roles = bySide[piece.color];
+    if (!roles.has(piece.role)) roles.set(piece.role, []);
+    roles.get(piece.role)!.push(square);
+  }
+
+  const turn = splitFen(fen)[1] === 'b' ? 'Black' : 'White';
+  const sentences = [
+    `${turn} to move.`,
+    `White: ${describeSide(bySide.white)}.`,
+    `Black: ${describeSide(bySide.black)}.`,
+  ];
+  if (lastMoveSan) sentences.push(`Last move ${lastMoveSan}.`);
+  try {
+    const chess = new Chess(fen);
+    if (chess.isCheckmate()) sentences.push(`${turn} is checkmated.`);
+    else if (chess.isStalemate()) sentences.push('Stalemate.');
+    else if (chess.isCheck()) sentences.push(`${turn} is in check.`);
+  } catch {
+    // Not a legal position (e.g. mid-edit in the Analyzer): describe the pieces only
+  }
+  return sentences.join(' ');
+}
@@ -0,0 +1,24 @@
+import type { Key } from 'chessground/types';
+
+type Orientation = 'white' | 'black';
+
+const FILES = 'abcdefgh';
+
+/** Map a point inside the rendered board to the square under it, honouring orientation. */
+export function squareAtPoint(rect: DOMRect, x: number, y: number, orientation: Orientation): Key | null {
+  const col = Math.floor(((x - rect.left) / rect.width) * 8);
+  const row = Math.floor(((y - rect.top) / rect.height) * 8);
+  if (col < 0 || col > 7 || row < 0 || row > 7) return null;
+  const file = orientation === 'white' ? col : 7 - col;
+  const rank = orientation === 'white' ? 8 - row : row + 1;
+  return `${FILES[file]}${rank}` as Key;
+}
+
+/** Inverse of squareAtPoint: the on-screen column/row (0 = top-left) of a square. */
+export function squareToGrid(key: Key, orientation: Orientation): { col: number; row: number } {
+  const file = FILES.indexOf(key[0]);
+  const rank = Number(key[1]);
+  return orientation === 'white'
+    ? { col: file, row: 8 - rank }
+    : { col: 7 - file, row: rank - 1 };
+}
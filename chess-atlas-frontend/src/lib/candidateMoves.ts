@@ -0,0 +1,47 @@
+import { Chess } from 'chess.js';
+import type { Key } from 'chessground/types';
+
+export type Promotion = 'q' | 'r' | 'b' | 'n';
+
+export interface CandidateMove {
+  san: string;
+  from: Key;
+  to: Key;
+  promotion?: Promotion;
+  /** Position after the move, which is what gets looked up. */
+  fen: string;
+}
+
+/** Every legal move from `fen` with the position it leads to, in chess.js generation order. */
+export function listCandidateMoves(fen: string): CandidateMove[] {
+  return new Chess(fen).moves({ verbose: true }).map(move => ({
+    san: move.san,
+    from: move.from as Key,
+    to: move.to as Key,
+    promotion: move.promotion as Promotion | undefined,
+    fen: move.after,
+  }));
+}
+
+const UCI_PATTERN = /^([a-h][1-8])([a-h][1-8])([qrbn])?$/;
+
+/** SAN without check marks, annotations or capture/promotion punctuation, with 0-0 written as O-O. */
+const looseSan = (san: string) => san.replace(/0/g, 'O').replace(/[+#!?x=]/g, '');
+
+/**
+ * Legal moves matching typed SAN or UCI. Usually one; several when the text
+ * names a promotion without the piece ("e8", "e7e8"), so the caller can ask.
+ */
+export function matchMoveText(text: string, candidates: CandidateMove[]): CandidateMove[] {
+  const input = text.trim();
+  if (!input) return [];
+  const uci = UCI_PATTERN.exec(input.toLowerCase());
+  if (uci) {
+    const [, from, to, promotion] = uci;
+    return candidates.filter(move => move.from === from && move.to === to && (!promotion || move.promotion === promotion));
+  }
+  const wanted = looseSan(input);
+  const exact = candidates.filter(move => looseSan(move.san) === wanted);
+  if (exact.length > 0) return exact;
+  return candidates.filter(move => move.promotion && looseSan(move.san).slice(0, -1) === wanted);
+}
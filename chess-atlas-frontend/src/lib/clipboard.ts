@@ -0,0 +1,12 @@
+/**
+ * Copy `text` to the clipboard. Resolves false instead of rejecting when the
+ * browser refuses (permission denied, document not focused, insecure context).
+ */
+export async function copyText(text: string): Promise<boolean> {
+  try {
+    await navigator.clipboard.writeText(text);
+    return true;
+  } catch {
+    return false;
+  }
+}
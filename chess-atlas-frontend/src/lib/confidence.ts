@@ -0,0 +1,73 @@
+import type { Key } from 'chessground/types';
+
+/**
+ * Optional per-square classifier output from analyze-board:
+ *
+ *   "square_predictions": {
+ *     "e4": { "confidence": 0.62, "top_k": [{ "label": "P", "probability": 0.62 }, { "label": "empty", "probability": 0.31 }] },
+ *     ...
+ *   }
+ *
+ * `label` is a FEN piece letter or "empty". Older responses omit the field entirely.
+ */
+export interface PieceGuess {
+  label: string;
+  probability: number;
+}
+
+export interface SquarePrediction {
+  confidence: number;
+  topK: PieceGuess[];
+}
+
+export type SquarePredictions = Map<Key, SquarePrediction>;
+
+/** Squares whose top guess is below this are flagged for a manual check. */
+export const LOW_CONFIDENCE_THRESHOLD = 0.8;
+
+const SQUARE_PATTERN = /^[a-h][1-8]$/;
+
+const PIECE_NAMES: Record<string, string> = {
+  k: 'king', q: 'queen', r: 'rook', b: 'bishop', n: 'knight', p: 'pawn',
+};
+
+const isProbability = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 1;
+
+/**
+ * Read the raw `square_predictions` payload. Anything malformed is skipped rather than
+ * failing the whole analysis; returns null when there is nothing usable.
+ */
+export function parseSquarePredictions(raw: unknown): SquarePredictions | null {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return null;
+  const predictions: SquarePredictions = new Map();
+  for (const [square, value] of Object.entries(raw as Record<string, unknown>)) {
+    if (!SQUARE_PATTERN.test(square) || !value || typeof value !== 'object') continue;
+    const { confidence, top_k: topK } = value as { confidence?: unknown; top_k?: unknown };
+    if (!isProbability(confidence)) continue;
+    const guesses = Array.isArray(topK)
+      ? topK.filter((g): g is PieceGuess =>
+        !!g && typeof g.label === 'string' && isProbability(g.probability))
+      : [];
+    predictions.set(square as Key, {
+      confidence,
+      topK: [...guesses].sort((a, b) => b.probability - a.probability),
+    });
+  }
+  return predictions.size > 0 ? predictions : null;
+}
+
+export function describePieceLabel(label: string): string {
+  if (label === 'empty') return 'Empty';
+  const name = PIECE_NAMES[label.toLowerCase()];
+  if (!name) return label;
+  return `${label === label.toUpperCase() ? 'White' : 'Black'} ${name}`;
+}
+
+export function countLowConfidence(predictions: SquarePredictions): number {
+  let count = 0;
+  for (const { confidence } of predictions.values()) {
+    if (confidence < LOW_CONFIDENCE_THRESHOLD) count++;
+  }
+  return count;
+}
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { toggleCastlingRight } from './fen';
+
+const START = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+
+describe('toggleCastlingRight', () => {
+  it('removes a right that is set', () => {
+    expect(toggleCastlingRight(START, 'Q')).toBe('rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w Kkq - 0 1');
+  });
+
+  it('adds a right back in canonical KQkq order', () => {
+    const fen = 'r3k2r/8/8/8/8/8/8/R3K2R b Kq - 3 20';
+    expect(toggleCastlingRight(fen, 'k')).toBe('r3k2r/8/8/8/8/8/8/R3K2R b Kkq - 3 20');
+    expect(toggleCastlingRight(fen, 'Q')).toBe('r3k2r/8/8/8/8/8/8/R3K2R b KQq - 3 20');
+  });
+
+  it('writes "-" once the last right is removed and starts over from it', () => {
+    const none = toggleCastlingRight('4k3/8/8/8/8/8/8/4K2R w K - 0 1', 'K');
+    expect(none).toBe('4k3/8/8/8/8/8/8/4K2R w - - 0 1');
+    expect(toggleCastlingRight(none, 'K')).toBe('4k3/8/8/8/8/8/8/4K2R w K - 0 1');
+  });
+});
@@ -0,0 +1,64 @@
+import { read, write } from 'chessground/fen';
+import type { Key, Piece } from 'chessground/types';
+
+export const INITIAL_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+
+/** Split a FEN into its six space-separated fields, filling in defaults for any that are missing. */
+export function splitFen(fen: string): string[] {
+  const parts = fen.trim().split(/\s+/);
+  const defaults = ['8/8/8/8/8/8/8/8', 'w', '-', '-', '0', '1'];
+  return defaults.map((fallback, i) => parts[i] ?? fallback);
+}
+
+/** Replace the piece-placement field of `fen`, keeping side to move, castling, etc. */
+export function withPlacement(fen: string, placement: string): string {
+  const parts = splitFen(fen);
+  parts[0] = placement;
+  return parts.join(' ');
+}
+
+export function readPieces(fen: string): Map<Key, Piece> {
+  return read(splitFen(fen)[0]);
+}
+
+/** Move whatever stands on `orig` to `dest`, capturing anything already there. No legality checks. */
+export function movePiece(fen: string, orig: Key, dest: Key): string {
+  const pieces = readPieces(fen);
+  const piece = pieces.get(orig);
+  if (!piece || orig === dest) return fen;
+  pieces.delete(orig);
+  pieces.set(dest, piece);
+  return withPlacement(fen, write(pieces));
+}
+
+/** Put `piece` on `key`, or clear the square when `piece` is null. */
+export function setPiece(fen: string, key: Key, piece: Piece | null): string {
+  const pieces = readPieces(fen);
+  if (piece) pieces.set(key, piece);
+  else pieces.delete(key);
+  return withPlacement(fen, write(pieces));
+}
+
+export type CastlingRight = 'K' | 'Q' | 'k' | 'q';
+
+/** Switch one castling right on or off, keeping the field in canonical KQkq order. */
+export function toggleCastlingRight(fen: string, right: CastlingRight): string {
+  const parts = splitFen(fen);
+  const active = parts[2] === '-' ? '' : parts[2];
+  const next = active.includes(right) ? active.replace(right, '') : active + right;
+  parts[2] = (['K', 'Q', 'k', 'q'] as const).filter(r => next.includes(r)).join('') || '-';
+  return parts.join(' ');
+}
+
+export type PieceLetter = 'K' | 'Q' | 'R' | 'B' | 'N' | 'P' | 'k' | 'q' | 'r' | 'b' | 'n' | 'p';
+
+const ROLE_BY_LETTER: Record<string, Piece['role']> = {
+  k: 'king', q: 'queen', r: 'rook', b: 'bishop', n: 'knight', p: 'pawn',
+};
+
+export function pieceFromLetter(letter: PieceLetter): Piece {
+  return {
+    role: ROLE_BY_LETTER[letter.toLowerCase()],
+    color: letter === letter.toUpperCase() ? 'white' : 'black',
+  };
+}
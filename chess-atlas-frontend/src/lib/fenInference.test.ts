@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { enPassantCandidates, inferCastling, inferFenFields, inferSideToMove } from './fenInference';
+
+describe('inferSideToMove', () => {
+  it('gives the move to the side in check', () => {
+    expect(inferSideToMove('4k3/4Q3/8/8/8/8/8/4K3').turn).toBe('b');
+    expect(inferSideToMove('4k3/8/8/8/8/8/4q3/4K3').turn).toBe('w');
+  });
+
+  it('falls back to the given side when neither king is attacked', () => {
+    expect(inferSideToMove('4k3/8/8/8/8/8/8/4K3').turn).toBe('w');
+    expect(inferSideToMove('4k3/8/8/8/8/8/8/4K3', 'b').turn).toBe('b');
+  });
+});
+
+describe('inferCastling', () => {
+  it('enables each right whose king and rook are home', () => {
+    expect(inferCastling('r3k2r/8/8/8/8/8/8/R3K2R')).toBe('KQkq');
+    expect(inferCastling('r3k3/8/8/8/8/8/8/4K2R')).toBe('Kq');
+    expect(inferCastling('4k3/8/8/8/8/8/8/4K3')).toBe('-');
+  });
+});
+
+describe('enPassantCandidates', () => {
+  it('lists the square behind a pawn that may just have double-stepped', () => {
+    expect(enPassantCandidates('4k3/8/8/3pP3/8/8/8/4K3 w')).toEqual(['d6']);
+    expect(enPassantCandidates('4k3/8/8/3p4/4P3/8/8/4K3 w')).toEqual([]);
+  });
+});
+
+describe('inferFenFields', () => {
+  it('never assumes en passant, but says when it was possible', () => {
+    const inference = inferFenFields('4k3/8/8/3pP3/8/8/8/4K3');
+    expect(inference.enPassant).toBe('-');
+    expect(inference.reasons.enPassant).toContain('d6');
+  });
+});
@@ -0,0 +1,117 @@
+import { Chess } from 'chess.js';
+import type { Key, Piece } from 'chessground/types';
+import { readPieces, splitFen, type CastlingRight } from './fen';
+
+/** Where the king and rook must stand for each castling right to be possible. */
+export const CASTLING_HOMES: Record<CastlingRight, { color: Piece['color']; king: Key; rook: Key; label: string }> = {
+  K: { color: 'white', king: 'e1', rook: 'h1', label: 'White kingside' },
+  Q: { color: 'white', king: 'e1', rook: 'a1', label: 'White queenside' },
+  k: { color: 'black', king: 'e8', rook: 'h8', label: 'Black kingside' },
+  q: { color: 'black', king: 'e8', rook: 'a8', label: 'Black queenside' },
+};
+
+export type InferredField = 'turn' | 'castling' | 'enPassant';
+
+export interface FenInference {
+  turn: 'w' | 'b';
+  castling: string;
+  enPassant: string;
+  /** Why each field got its value, for tooltips. */
+  reasons: Record<InferredField, string>;
+}
+
+/** Every right whose king and rook are still on their home squares, in KQkq order. */
+export function inferCastling(placement: string): string {
+  const pieces = readPieces(placement);
+  const rights = (Object.keys(CASTLING_HOMES) as CastlingRight[]).filter(right => {
+    const { color, king, rook } = CASTLING_HOMES[right];
+    const kingPiece = pieces.get(king);
+    const rookPiece = pieces.get(rook);
+    return kingPiece?.role === 'king' && kingPiece.color === color
+      && rookPiece?.role === 'rook' && rookPiece.color === color;
+  });
+  return rights.join('') || '-';
+}
+
+const isKingAttacked = (placement: string, color: 'w' | 'b'): boolean => {
+  const board = new Chess(`${placement} w - - 0 1`, { skipValidation: true });
+  const kings = board.findPiece({ type: 'k', color });
+  if (kings.length !== 1) return false;
+  return board.attackers(kings[0], color === 'w' ? 'b' : 'w').length > 0;
+};
+
+/**
+ * A side in check must be the side to move. When neither (or both) kings are
+ * attacked the photo gives no clue, so fall back to `fallback` (the user's
+ * default side to move).
+ */
+export function inferSideToMove(placement: string, fallback: 'w' | 'b' = 'w'): { turn: 'w' | 'b'; reason: string } {
+  const whiteInCheck = isKingAttacked(placement, 'w');
+  const blackInCheck = isKingAttacked(placement, 'b');
+  if (blackInCheck && !whiteInCheck) return { turn: 'b', reason: 'Black is in check, so Black must be to move.' };
+  if (whiteInCheck && !blackInCheck) return { turn: 'w', reason: 'White is in check, so White must be to move.' };
+  return {
+    turn: fallback,
+    reason: `Nothing on the board shows whose move it is; assumed ${fallback === 'w' ? 'White' : 'Black'}.`,
+  };
+}
+
+/**
+ * Squares that could be the en-passant target given the pawn structure: an enemy
+ * pawn that may just have double-stepped, with both squares behind it empty and
+ * a pawn of the side to move beside it ready to capture.
+ */
+export function enPassantCandidates(fen: string): Key[] {
+  const [placement, turn] = splitFen(fen);
+  const pieces = readPieces(placement);
+  const mover: Piece['color'] = turn === 'w' ? 'black' : 'white';
+  const capturer: Piece['color'] = turn === 'w' ? 'white' : 'black';
+  const pawnRank = turn === 'w' ? 5 : 4;
+  const direction = turn === 'w' ? 1 : -1;
+  const candidates: Key[] = [];
+  for (const file of 'abcdefgh') {
+    const pawn = pieces.get(`${file}${pawnRank}` as Key);
+    if (pawn?.role !== 'pawn' || pawn.color !== mover) continue;
+    const target = `${file}${pawnRank + direction}` as Key;
+    const start = `${file}${pawnRank + 2 * direction}` as Key;
+    if (pieces.has(target) || pieces.has(start)) continue;
+    const fileIndex = file.charCodeAt(0);
+    const hasCapturer = [fileIndex - 1, fileIndex + 1].some(code => {
+      const neighbour = pieces.get(`${String.fromCharCode(code)}${pawnRank}` as Key);
+      return neighbour?.role === 'pawn' && neighbour.color === capturer;
+    });
+    if (hasCapturer) candidates.push(target);
+  }
+  return candidates;
+}
+
+/** Fill in side to move, castling and en passant for a placement-only FEN. */
+export function inferFenFields(placement: string, fallbackTurn: 'w' | 'b' = 'w'): FenInference {
+  const { turn, reason: turnReason } = inferSideToMove(placement, fallbackTurn);
+  const castling = inferCastling(placement);
+  const candidates = enPassantCandidates(`${placement} ${turn}`);
+  return {
+    turn,
+    castling,
+    // A double step can't be told apart from two single steps, so never assume one
+    enPassant: '-',
+    reasons: {
+      turn: turnReason,
+      castling: castling === '-'
+        ? 'No king and rook are on their starting squares.'
+        : 'Enabled wherever king and rook are still on their starting squares.',
+      enPassant: candidates.length > 0
+        ? `Possible: ${candidates.join(', ')}. Left off because the last move is unknown.`
+        : 'No pawn could just have made a double step.',
+    },
+  };
+}
+
+export const fenFromInference = (placement: string, inference: FenInference): string =>
+  `${placement} ${inference.turn} ${inference.castling} ${inference.enPassant} 0 1`;
+
+/** The value a field currently has in `fen`. */
+export function fenFieldValue(fen: string, field: InferredField): string {
+  const [, turn, castling, enPassant] = splitFen(fen);
+  return { turn, castling, enPassant }[field];
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { canonicalFen, fenMatchKey } from './fenMatching';
+
+const FEN = 'r3k2r/8/8/8/8/8/8/R3K2R w qkQK - 12 40';
+
+describe('canonicalFen', () => {
+  it('orders castling rights and fills in missing fields', () => {
+    expect(canonicalFen(FEN)).toBe('r3k2r/8/8/8/8/8/8/R3K2R w KQkq - 12 40');
+    expect(canonicalFen('  4k3/8/8/8/8/8/8/4K3   b ')).toBe('4k3/8/8/8/8/8/8/4K3 b - - 0 1');
+  });
+});
+
+describe('fenMatchKey', () => {
+  it('keeps fewer fields the looser the mode', () => {
+    expect(fenMatchKey(FEN, 'exact')).toBe('r3k2r/8/8/8/8/8/8/R3K2R w KQkq - 12 40');
+    expect(fenMatchKey(FEN, 'ignore-counters')).toBe('r3k2r/8/8/8/8/8/8/R3K2R w KQkq -');
+    expect(fenMatchKey(FEN, 'ignore-rights')).toBe('r3k2r/8/8/8/8/8/8/R3K2R w');
+    expect(fenMatchKey(FEN, 'ignore-turn')).toBe('r3k2r/8/8/8/8/8/8/R3K2R');
+  });
+
+  it('matches a transposition with different move counters unless the mode is exact', () => {
+    const transposed = 'r3k2r/8/8/8/8/8/8/R3K2R w KQkq - 0 25';
+    expect(fenMatchKey(transposed, 'ignore-counters')).toBe(fenMatchKey(FEN, 'ignore-counters'));
+    expect(fenMatchKey(transposed, 'exact')).not.toBe(fenMatchKey(FEN, 'exact'));
+  });
+});
@@ -0,0 +1,43 @@
+import { splitFen } from './fen';
+
+/**
+ * How loosely a lookup matches positions. Each mode drops one more FEN field
+ * than the one before it, so the list runs from strictest to loosest.
+ */
+export type FenMatchMode = 'exact' | 'ignore-counters' | 'ignore-rights' | 'ignore-turn';
+
+export const FEN_MATCH_MODES: Record<FenMatchMode, string> = {
+  exact: 'Exact FEN',
+  'ignore-counters': 'Ignore move counters',
+  'ignore-rights': 'Ignore castling and en passant',
+  'ignore-turn': 'Ignore side to move',
+};
+
+export const DEFAULT_FEN_MATCH_MODE: FenMatchMode = 'ignore-counters';
+
+/** FEN fields that still count under each mode: placement, turn, castling, en passant, halfmove, fullmove. */
+const KEPT_FIELDS: Record<FenMatchMode, number> = {
+  exact: 6,
+  'ignore-counters': 4,
+  'ignore-rights': 2,
+  'ignore-turn': 1,
+};
+
+/** Castling letters in KQkq order, or "-" when there are none. */
+const canonicalCastling = (castling: string) =>
+  ['K', 'Q', 'k', 'q'].filter(right => castling.includes(right)).join('') || '-';
+
+/** The full FEN with whitespace collapsed, missing fields defaulted and castling rights in KQkq order. */
+export function canonicalFen(fen: string): string {
+  const parts = splitFen(fen);
+  parts[2] = canonicalCastling(parts[2]);
+  return parts.join(' ');
+}
+
+/**
+ * The part of `fen` that `mode` compares. Two FENs match under `mode` exactly
+ * when their keys are equal, which also makes this the cache key.
+ */
+export function fenMatchKey(fen: string, mode: FenMatchMode): string {
+  return canonicalFen(fen).split(' ').slice(0, KEPT_FIELDS[mode]).join(' ');
+}
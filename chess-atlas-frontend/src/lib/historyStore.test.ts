@@ -0,0 +1,39 @@
+// @vitest-environment node
+import 'fake-indexeddb/auto';
+import { describe, expect, it } from 'vitest';
+import { getAnalysis, importArchive, updateAnalysis } from './historyStore';
+
+const RECORD = {
+  id: 'entry-1',
+  createdAt: 1,
+  updatedAt: 1,
+  imageName: 'board.png',
+  image: 'data:image/png;base64,AAAA',
+  imageType: 'image/png',
+  thumbnail: '',
+  croppedImage: null,
+  fen: 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1',
+  analysisOrientation: 'white',
+  boardOrientation: 'white',
+};
+
+const seed = () => importArchive(JSON.stringify({ format: 'chess-atlas-history', version: 1, exportedAt: 1, records: [RECORD] }));
+
+describe('updateAnalysis', () => {
+  it('keeps both of two overlapping updates', async () => {
+    await seed();
+    const fen = 'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq - 0 1';
+    await Promise.all([
+      updateAnalysis(RECORD.id, { fen, croppedImage: 'data:image/jpeg;base64,BBBB' }),
+      updateAnalysis(RECORD.id, { boardOrientation: 'black' }),
+    ]);
+    const stored = await getAnalysis(RECORD.id);
+    expect(stored).toMatchObject({ fen, croppedImage: 'data:image/jpeg;base64,BBBB', boardOrientation: 'black' });
+    expect(stored!.updatedAt).toBeGreaterThan(RECORD.updatedAt);
+  });
+
+  it('does nothing for an id that is not stored', async () => {
+    await updateAnalysis('missing', { fen: RECORD.fen });
+    expect(await getAnalysis('missing')).toBeUndefined();
+  });
+});
@@ -0,0 +1,157 @@
+import type { Orientation } from './analyzeBoard';
+import { blobToDataUrl, createThumbnail, dataUrlToBlob } from './image';
+
+/** One saved Analyzer run, persisted in IndexedDB. */
+export interface AnalysisRecord {
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+  imageName: string;
+  image: Blob;
+  thumbnail: string;
+  croppedImage: string | null;
+  fen: string;
+  analysisOrientation: Orientation;
+  boardOrientation: Orientation;
+  /** Raw `square_predictions` payload, kept so the confidence overlay can be restored. */
+  squarePredictions?: unknown;
+}
+
+export type NewAnalysisRecord = Omit<AnalysisRecord, 'id' | 'createdAt' | 'updatedAt' | 'thumbnail' | 'imageName'> & {
+  image: File;
+};
+
+type ArchivedRecord = Omit<AnalysisRecord, 'image'> & { image: string; imageType: string };
+
+interface HistoryArchive {
+  format: 'chess-atlas-history';
+  version: 1;
+  exportedAt: number;
+  records: ArchivedRecord[];
+}
+
+const DB_NAME = 'chess-atlas';
+const DB_VERSION = 1;
+const STORE_NAME = 'analyses';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      store.createIndex('createdAt', 'createdAt');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  return requestToPromise(run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)));
+}
+
+export async function saveAnalysis(record: NewAnalysisRecord): Promise<string> {
+  const now = Date.now();
+  const full: AnalysisRecord = {
+    ...record,
+    id: crypto.randomUUID(),
+    createdAt: now,
+    updatedAt: now,
+    imageName: record.image.name,
+    thumbnail: await createThumbnail(record.image),
+  };
+  await withStore('readwrite', store => store.put(full));
+  return full.id;
+}
+
+export async function updateAnalysis(
+  id: string,
+  patch: Partial<Pick<AnalysisRecord, 'fen' | 'croppedImage' | 'analysisOrientation' | 'boardOrientation' | 'squarePredictions'>>,
+): Promise<void> {
+  const db = await openDatabase();
+  // Read and write in one transaction, so overlapping updates apply in order instead of overwriting each other
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    const store = tx.objectStore(STORE_NAME);
+    const request = store.get(id) as IDBRequest<AnalysisRecord | undefined>;
+    request.onsuccess = () => {
+      if (request.result) store.put({ ...request.result, ...patch, updatedAt: Date.now() });
+    };
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+export async function getAnalysis(id: string): Promise<AnalysisRecord | undefined> {
+  return withStore('readonly', store => store.get(id) as IDBRequest<AnalysisRecord | undefined>);
+}
+
+/** All records, newest first. */
+export async function listAnalyses(): Promise<AnalysisRecord[]> {
+  const records = await withStore('readonly', store => store.index('createdAt').getAll() as IDBRequest<AnalysisRecord[]>);
+  return records.reverse();
+}
+
+export async function deleteAnalysis(id: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(id));
+}
+
+/** Serialise the whole history, images included, as a JSON archive. */
+export async function exportArchive(): Promise<string> {
+  const records = await listAnalyses();
+  const archived: ArchivedRecord[] = await Promise.all(
+    records.map(async record => ({ ...record, image: await blobToDataUrl(record.image), imageType: record.image.type })),
+  );
+  const archive: HistoryArchive = {
+    format: 'chess-atlas-history',
+    version: 1,
+    exportedAt: Date.now(),
+    records: archived,
+  };
+  return JSON.stringify(archive);
+}
+
+/** Merge an archive produced by exportArchive; records with the same id are overwritten. Returns the count imported. */
+export async function importArchive(json: string): Promise<number> {
+  let archive: HistoryArchive;
+  try {
+    archive = JSON.parse(json) as HistoryArchive;
+  } catch {
+    throw new Error('The selected file is not valid JSON.');
+  }
+  if (archive?.format !== 'chess-atlas-history' || !Array.isArray(archive.records)) {
+    throw new Error('The selected file is not a Chess Atlas history archive.');
+  }
+  const records: AnalysisRecord[] = await Promise.all(
+    archive.records
+      .filter(r => typeof r.id === 'string' && typeof r.fen === 'string' && typeof r.image === 'string')
+      .map(async ({ imageType, ...r }) => {
+        const blob = await dataUrlToBlob(r.image);
+        return { ...r, image: imageType ? new Blob([blob], { type: imageType }) : blob };
+      }),
+  );
+  const db = await openDatabase();
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    const store = tx.objectStore(STORE_NAME);
+    for (const record of records) store.put(record);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+  return records.length;
+}
@@ -0,0 +1,135 @@
+import { MAX_UPLOAD_SIZE_BYTES, formatBytes } from './analyzeBoard';
+
+const THUMBNAIL_SIZE = 160;
+
+/** Small JPEG data URL of `image`, fitted inside a THUMBNAIL_SIZE square. */
+export async function createThumbnail(image: Blob): Promise<string> {
+  const bitmap = await createImageBitmap(image);
+  try {
+    const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas 2D context unavailable');
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/jpeg', 0.7);
+  } finally {
+    bitmap.close();
+  }
+}
+
+export function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+export async function dataUrlToBlob(dataUrl: string): Promise<Blob> {
+  const response = await fetch(dataUrl);
+  return response.blob();
+}
+
+// Plenty for a board photo; the model works on a few hundred pixels per side
+const MAX_UPLOAD_DIMENSION = 2048;
+const TARGET_UPLOAD_BYTES = 3 * 1024 * 1024;
+const JPEG_QUALITIES = [0.9, 0.8, 0.7, 0.6];
+
+/** Thrown by prepareImage with a message that can be shown to the user as-is. */
+export class ImagePreparationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImagePreparationError';
+  }
+}
+
+export interface PreparedImage {
+  /** What actually gets uploaded. */
+  file: File;
+  originalSize: number;
+  originalWidth: number;
+  originalHeight: number;
+  width: number;
+  height: number;
+}
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob | null> =>
+  new Promise(resolve => canvas.toBlob(resolve, type, quality));
+
+const formatLabel = (file: File): string =>
+  (file.type.split('/')[1] || file.name.split('.').pop() || 'this').toUpperCase();
+
+const preparedImages = new WeakMap<File, Promise<PreparedImage>>();
+
+/**
+ * Decode `file`, apply its EXIF orientation, downscale it to MAX_UPLOAD_DIMENSION
+ * and re-encode it as JPEG under TARGET_UPLOAD_BYTES. Small PNGs (screenshots)
+ * are passed through untouched. Results are cached per File, so re-analysing the
+ * same upload in the other orientation doesn't redo the work. Aborting `signal`
+ * rejects with an AbortError at once; the encode itself still finishes for the cache.
+ */
+export function prepareImage(file: File, { signal }: { signal?: AbortSignal } = {}): Promise<PreparedImage> {
+  let prepared = preparedImages.get(file);
+  if (!prepared) {
+    prepared = encodeForUpload(file);
+    preparedImages.set(file, prepared);
+    prepared.catch(() => preparedImages.delete(file));
+  }
+  if (!signal) return prepared;
+  const shared = prepared;
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(new DOMException('Aborted', 'AbortError'));
+    if (signal.aborted) { onAbort(); return; }
+    signal.addEventListener('abort', onAbort, { once: true });
+    shared.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+async function encodeForUpload(file: File): Promise<PreparedImage> {
+  let bitmap: ImageBitmap;
+  try {
+    // 'from-image' makes the decoder honour the EXIF orientation tag
+    bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch {
+    throw new ImagePreparationError(`This browser can't read ${formatLabel(file)} images. Convert the photo to JPEG or PNG and try again.`);
+  }
+  try {
+    const { width: originalWidth, height: originalHeight } = bitmap;
+    const scale = Math.min(1, MAX_UPLOAD_DIMENSION / Math.max(originalWidth, originalHeight));
+    if (file.type === 'image/png' && scale === 1 && file.size <= TARGET_UPLOAD_BYTES) {
+      return { file, originalSize: file.size, originalWidth, originalHeight, width: originalWidth, height: originalHeight };
+    }
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(originalWidth * scale);
+    canvas.height = Math.round(originalHeight * scale);
+    const context = canvas.getContext('2d');
+    if (!context) throw new ImagePreparationError('Could not process the image in this browser.');
+    // JPEG has no alpha; keep transparent screenshots from turning black
+    context.fillStyle = '#fff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    let blob: Blob | null = null;
+    for (const quality of JPEG_QUALITIES) {
+      blob = await canvasToBlob(canvas, 'image/jpeg', quality);
+      if (blob && blob.size <= TARGET_UPLOAD_BYTES) break;
+    }
+    if (!blob) throw new ImagePreparationError('Could not process the image in this browser.');
+    if (blob.size > MAX_UPLOAD_SIZE_BYTES) {
+      throw new ImagePreparationError(`Even after compression the image is ${formatBytes(blob.size)}, over the ${formatBytes(MAX_UPLOAD_SIZE_BYTES)} upload limit.`);
+    }
+    const baseName = file.name.replace(/\.[^.]+$/, '') || 'board';
+    return {
+      file: new File([blob], `${baseName}.jpg`, { type: 'image/jpeg' }),
+      originalSize: file.size,
+      originalWidth,
+      originalHeight,
+      width: canvas.width,
+      height: canvas.height,
+    };
+  } finally {
+    bitmap.close();
+  }
+}
@@ -0,0 +1,47 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { VideoResult } from './apiClient';
+import { clearLookupCache, getCachedResults, setCachedResults } from './lookupCache';
+
+const FEN = 'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq - 0 1';
+const RESULTS: VideoResult[] = [{ video_id: 'abc', timestamp_seconds: 42, orientation: 'white' }];
+
+describe('lookupCache', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    sessionStorage.clear();
+    clearLookupCache();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('answers for any FEN that matches under the same mode', () => {
+    setCachedResults(FEN, 'ignore-counters', RESULTS);
+    expect(getCachedResults(FEN.replace(/0 1$/, '4 9'), 'ignore-counters')).toEqual(RESULTS);
+    expect(getCachedResults(FEN, 'exact')).toBeUndefined();
+  });
+
+  it('forgets entries after 30 minutes', () => {
+    setCachedResults(FEN, 'exact', RESULTS);
+    vi.advanceTimersByTime(29 * 60 * 1000);
+    expect(getCachedResults(FEN, 'exact')).toEqual(RESULTS);
+    vi.advanceTimersByTime(2 * 60 * 1000);
+    expect(getCachedResults(FEN, 'exact')).toBeUndefined();
+  });
+
+  it('mirrors entries to sessionStorage shortly after a write', () => {
+    setCachedResults(FEN, 'exact', RESULTS);
+    expect(sessionStorage.getItem('chess-atlas.lookupCache')).toBeNull();
+    vi.advanceTimersByTime(500);
+    expect(sessionStorage.getItem('chess-atlas.lookupCache')).toContain('abc');
+  });
+
+  it('drops everything, stored copy included, on clear', () => {
+    setCachedResults(FEN, 'exact', RESULTS);
+    vi.advanceTimersByTime(500);
+    clearLookupCache();
+    expect(getCachedResults(FEN, 'exact')).toBeUndefined();
+    expect(sessionStorage.getItem('chess-atlas.lookupCache')).toBeNull();
+  });
+});
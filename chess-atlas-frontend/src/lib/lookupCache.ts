@@ -0,0 +1,100 @@
+import type { VideoResult } from './apiClient';
+import { fenMatchKey, type FenMatchMode } from './fenMatching';
+
+/**
+ * Deduplicated lookup-position results, least recently used first, mirrored to
+ * sessionStorage so a reload or a trip to another page doesn't start cold.
+ * Entries go stale after TTL_MS; the video index doesn't change that often,
+ * but a long-lived tab should still pick up new uploads.
+ */
+
+const STORAGE_KEY = 'chess-atlas.lookupCache';
+const MAX_ENTRIES = 300;
+const TTL_MS = 30 * 60 * 1000;
+const PERSIST_DELAY_MS = 500;
+
+interface CacheEntry {
+  results: VideoResult[];
+  storedAt: number;
+}
+
+let entries: Map<string, CacheEntry> | null = null;
+let persistTimer: ReturnType<typeof setTimeout> | null = null;
+
+/** Positions that match under `mode` share a key, so a transposition is a cache hit. */
+export const lookupCacheKey = (fen: string, mode: FenMatchMode) => `${mode}|${fenMatchKey(fen, mode)}`;
+
+const isFresh = (entry: CacheEntry) => Date.now() - entry.storedAt < TTL_MS;
+
+function loadEntries(): Map<string, CacheEntry> {
+  if (entries) return entries;
+  entries = new Map();
+  try {
+    const stored: unknown = JSON.parse(sessionStorage.getItem(STORAGE_KEY) ?? '[]');
+    if (!Array.isArray(stored)) return entries;
+    for (const item of stored) {
+      if (!Array.isArray(item) || typeof item[0] !== 'string') continue;
+      const entry = item[1] as CacheEntry | undefined;
+      if (Array.isArray(entry?.results) && typeof entry.storedAt === 'number' && isFresh(entry)) {
+        entries.set(item[0], entry);
+      }
+    }
+  } catch {
+    // Unreadable or unavailable storage just means an empty cache
+  }
+  return entries;
+}
+
+function persist() {
+  persistTimer = null;
+  const cache = loadEntries();
+  // On a full quota, drop the older half and try once more before giving up on persistence
+  for (let attempt = 0; attempt < 2; attempt++) {
+    try {
+      sessionStorage.setItem(STORAGE_KEY, JSON.stringify([...cache]));
+      return;
+    } catch {
+      [...cache.keys()].slice(0, Math.ceil(cache.size / 2)).forEach(key => cache.delete(key));
+    }
+  }
+}
+
+const schedulePersist = () => {
+  if (persistTimer === null) persistTimer = setTimeout(persist, PERSIST_DELAY_MS);
+};
+
+export function getCachedResults(fen: string, mode: FenMatchMode): VideoResult[] | undefined {
+  const cache = loadEntries();
+  const key = lookupCacheKey(fen, mode);
+  const entry = cache.get(key);
+  if (!entry) return undefined;
+  cache.delete(key);
+  if (!isFresh(entry)) {
+    schedulePersist();
+    return undefined;
+  }
+  // Re-insert to mark it most recently used
+  cache.set(key, entry);
+  return entry.results;
+}
+
+export function setCachedResults(fen: string, mode: FenMatchMode, results: VideoResult[]): void {
+  const cache = loadEntries();
+  const key = lookupCacheKey(fen, mode);
+  cache.delete(key);
+  cache.set(key, { results, storedAt: Date.now() });
+  while (cache.size > MAX_ENTRIES) cache.delete(cache.keys().next().value!);
+  schedulePersist();
+}
+
+/** Forget everything, e.g. after switching to a different lookup endpoint. */
+export function clearLookupCache(): void {
+  entries = new Map();
+  if (persistTimer !== null) clearTimeout(persistTimer);
+  persistTimer = null;
+  try {
+    sessionStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Nothing persisted to remove
+  }
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import {
+  addLine,
+  addMove,
+  countNodes,
+  createTree,
+  deleteSubtree,
+  getLine,
+  getVariationRoot,
+  promoteVariation,
+  type MoveTree,
+} from './moveTree';
+import { INITIAL_FEN } from './fen';
+import { replayMoves } from './positionUrl';
+
+/** 1.e4 e5 2.Nf3 with 1...c5 as a variation, plus the ids of e5, Nf3 and c5. */
+function sampleTree(): { tree: MoveTree; e5: number; nf3: number; c5: number } {
+  const main = addLine(createTree(INITIAL_FEN), replayMoves(INITIAL_FEN, ['e4', 'e5', 'Nf3']), 3);
+  const e4 = main.tree.nodes[main.tree.rootId].children[0];
+  const [, sicilian] = replayMoves(main.tree.nodes[e4].fen, ['c5']);
+  const added = addMove(main.tree, e4, sicilian);
+  return { tree: added.tree, e5: main.tree.nodes[e4].children[0], nf3: main.nodeId, c5: added.nodeId };
+}
+
+describe('moveTree', () => {
+  it('reuses a child that already has the same move', () => {
+    const { tree, e5 } = sampleTree();
+    const e4Id = tree.nodes[e5].parentId!;
+    const again = addMove(tree, e4Id, { fen: tree.nodes[e5].fen, san: 'e5' });
+    expect(again.nodeId).toBe(e5);
+    expect(again.tree).toBe(tree);
+  });
+
+  it('follows the main continuation when building the current line', () => {
+    const { tree, e5 } = sampleTree();
+    const { entries, index } = getLine(tree, e5);
+    expect(entries.map(entry => entry.san)).toEqual([undefined, 'e4', 'e5', 'Nf3']);
+    expect(index).toBe(2);
+  });
+
+  it('promotes a variation to the main line', () => {
+    const { tree, c5, e5 } = sampleTree();
+    expect(getVariationRoot(tree, c5)).toBe(c5);
+    const promoted = promoteVariation(tree, c5);
+    expect(promoted.nodes[tree.nodes[c5].parentId!].children).toEqual([c5, e5]);
+    expect(getVariationRoot(promoted, e5)).toBe(e5);
+  });
+
+  it('deletes a node with everything after it', () => {
+    const { tree, e5, nf3, c5 } = sampleTree();
+    const pruned = deleteSubtree(tree, e5);
+    expect(countNodes(pruned)).toBe(countNodes(tree) - 2);
+    expect(pruned.nodes[nf3]).toBeUndefined();
+    expect(pruned.nodes[tree.nodes[e5].parentId!].children).toEqual([c5]);
+    expect(deleteSubtree(tree, tree.rootId)).toBe(tree);
+  });
+});
@@ -0,0 +1,121 @@
+import type { HistoryEntry } from './positionUrl';
+
+/**
+ * Explorer move tree. Nodes are stored flat and reference each other by id;
+ * `children[0]` is always the main continuation, the rest are variations.
+ * Every update returns a new tree so it can live in React state.
+ */
+export interface MoveNode extends HistoryEntry {
+  id: number;
+  parentId: number | null;
+  children: number[];
+  comment?: string;
+}
+
+export interface MoveTree {
+  rootId: number;
+  nodes: Record<number, MoveNode>;
+  nextId: number;
+}
+
+export function createTree(rootFen: string): MoveTree {
+  return { rootId: 0, nodes: { 0: { id: 0, fen: rootFen, parentId: null, children: [] } }, nextId: 1 };
+}
+
+/** Add `entry` as a child of `parentId`, reusing an existing child with the same move. */
+export function addMove(tree: MoveTree, parentId: number, entry: HistoryEntry): { tree: MoveTree; nodeId: number } {
+  const parent = tree.nodes[parentId];
+  const existing = parent.children.find(id => tree.nodes[id].san === entry.san);
+  if (existing !== undefined) return { tree, nodeId: existing };
+  const nodeId = tree.nextId;
+  return {
+    nodeId,
+    tree: {
+      ...tree,
+      nextId: nodeId + 1,
+      nodes: {
+        ...tree.nodes,
+        [parentId]: { ...parent, children: [...parent.children, nodeId] },
+        [nodeId]: { ...entry, id: nodeId, parentId, children: [] },
+      },
+    },
+  };
+}
+
+/** Merge a linear line (entries[0] is the root position) into the tree; returns the node at `ply`. */
+export function addLine(tree: MoveTree, entries: HistoryEntry[], ply: number): { tree: MoveTree; nodeId: number } {
+  let next = tree;
+  let nodeId = tree.rootId;
+  let target = tree.rootId;
+  entries.slice(1).forEach((entry, i) => {
+    ({ tree: next, nodeId } = addMove(next, nodeId, entry));
+    if (i + 1 === ply) target = nodeId;
+  });
+  return { tree: next, nodeId: target };
+}
+
+/** Ids from the root down to `nodeId`, inclusive. */
+export function getPath(tree: MoveTree, nodeId: number): number[] {
+  const path: number[] = [];
+  for (let id: number | null = nodeId; id !== null; id = tree.nodes[id].parentId) path.unshift(id);
+  return path;
+}
+
+/** Last node reached by following main continuations from `nodeId`. */
+export function getLineEnd(tree: MoveTree, nodeId: number): number {
+  let id = nodeId;
+  while (tree.nodes[id].children.length > 0) id = tree.nodes[id].children[0];
+  return id;
+}
+
+/** The current line as history entries: root to `nodeId`, then its main continuation. */
+export function getLine(tree: MoveTree, nodeId: number): { entries: HistoryEntry[]; index: number } {
+  const path = getPath(tree, nodeId);
+  const continuation = getPath(tree, getLineEnd(tree, nodeId)).slice(path.length);
+  const entries = [...path, ...continuation].map(id => {
+    const { fen, lastMove, san } = tree.nodes[id];
+    return { fen, lastMove, san };
+  });
+  return { entries, index: path.length - 1 };
+}
+
+/** Make the line through `nodeId` the main line at every branch point above it. */
+export function promoteVariation(tree: MoveTree, nodeId: number): MoveTree {
+  const nodes = { ...tree.nodes };
+  for (const id of getPath(tree, nodeId)) {
+    const { parentId } = nodes[id];
+    if (parentId === null) continue;
+    const parent = nodes[parentId];
+    if (parent.children[0] === id) continue;
+    nodes[parentId] = { ...parent, children: [id, ...parent.children.filter(c => c !== id)] };
+  }
+  return { ...tree, nodes };
+}
+
+/** Deepest ancestor-or-self of `nodeId` that is not its parent's main continuation. */
+export function getVariationRoot(tree: MoveTree, nodeId: number): number | null {
+  for (let id: number | null = nodeId; id !== null; id = tree.nodes[id].parentId) {
+    const parentId: number | null = tree.nodes[id].parentId;
+    if (parentId !== null && tree.nodes[parentId].children[0] !== id) return id;
+  }
+  return null;
+}
+
+/** Remove `nodeId` and everything after it. */
+export function deleteSubtree(tree: MoveTree, nodeId: number): MoveTree {
+  const { parentId } = tree.nodes[nodeId];
+  if (parentId === null) return tree;
+  const nodes = { ...tree.nodes };
+  const stack = [nodeId];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    stack.push(...nodes[id].children);
+    delete nodes[id];
+  }
+  nodes[parentId] = { ...nodes[parentId], children: nodes[parentId].children.filter(c => c !== nodeId) };
+  return { ...tree, nodes };
+}
+
+export function countNodes(tree: MoveTree): number {
+  return Object.keys(tree.nodes).length;
+}
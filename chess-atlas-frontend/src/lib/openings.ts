@@ -0,0 +1,74 @@
+import { Chess } from 'chess.js';
+import { ECO_OPENINGS } from './ecoData';
+
+export interface Opening {
+  eco: string;
+  name: string;
+}
+
+export interface OpeningMatch {
+  opening: Opening;
+  /** Plies played since the last named position; 0 while still in book. */
+  pliesOutOfBook: number;
+}
+
+interface OpeningIndex {
+  byPosition: Map<string, Opening>;
+  byPlacement: Map<string, Opening>;
+}
+
+let index: OpeningIndex | null = null;
+
+/** Placement, side to move and castling rights: move counters and en passant don't change the opening. */
+const positionKey = (fen: string) => fen.trim().split(/\s+/).slice(0, 3).join(' ');
+const placementKey = (fen: string) => fen.trim().split(/\s+/)[0];
+
+/**
+ * Replay every book line once, on first use, and key the final position of
+ * each. Looking up by position rather than by move order is what lets
+ * transpositions (1.Nf3 Nf6 2.d4 and 1.d4 Nf6 2.Nf3) land on the same name.
+ */
+function getIndex(): OpeningIndex {
+  if (index) return index;
+  const byPosition = new Map<string, Opening>();
+  const byPlacement = new Map<string, Opening>();
+  const chess = new Chess();
+  for (const [eco, name, moves] of ECO_OPENINGS) {
+    chess.reset();
+    try {
+      for (const san of moves.split(' ')) chess.move(san);
+    } catch {
+      // A mistyped book line only costs that one name
+      continue;
+    }
+    const fen = chess.fen();
+    const opening = { eco, name };
+    if (!byPosition.has(positionKey(fen))) byPosition.set(positionKey(fen), opening);
+    if (!byPlacement.has(placementKey(fen))) byPlacement.set(placementKey(fen), opening);
+  }
+  index = { byPosition, byPlacement };
+  return index;
+}
+
+/**
+ * The named opening for exactly this position, if the book has one. Falls
+ * back to matching the piece placement alone, since an analyzed photo's side
+ * to move and castling rights are only inferred.
+ */
+export function lookupOpening(fen: string): Opening | null {
+  const { byPosition, byPlacement } = getIndex();
+  return byPosition.get(positionKey(fen)) ?? byPlacement.get(placementKey(fen)) ?? null;
+}
+
+/**
+ * Name for the last position of a line (FENs from the start onwards): the
+ * position itself when it is in book, otherwise the nearest named ancestor.
+ */
+export function findNearestOpening(lineFens: string[]): OpeningMatch | null {
+  const { byPosition } = getIndex();
+  for (let i = lineFens.length - 1; i >= 0; i--) {
+    const opening = byPosition.get(positionKey(lineFens[i]));
+    if (opening) return { opening, pliesOutOfBook: lineFens.length - 1 - i };
+  }
+  return null;
+}
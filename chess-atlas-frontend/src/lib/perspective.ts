@@ -0,0 +1,126 @@
+import { ImagePreparationError } from './image';
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/** Board corners in image space, clockwise from top-left: a8, h8, h1, a1 as seen in the photo. */
+export type Quad = [Point, Point, Point, Point];
+
+/** Starting handles for a fresh crop, as fractions of the image size. */
+export const DEFAULT_CROP_QUAD: Quad = [
+  { x: 0.1, y: 0.1 },
+  { x: 0.9, y: 0.1 },
+  { x: 0.9, y: 0.9 },
+  { x: 0.1, y: 0.9 },
+];
+
+const MIN_OUTPUT_SIZE = 256;
+const MAX_OUTPUT_SIZE = 1024;
+// The photo is sampled at most this large: sharp enough for the output, without holding every pixel of a 50 MP original
+const MAX_SOURCE_DIMENSION = 2048;
+
+type Homography = [number, number, number, number, number, number, number, number];
+
+/**
+ * Projective map from the unit square onto `quad` (Heckbert's closed form), so
+ * (0,0), (1,0), (1,1), (0,1) land on the four corners in order.
+ */
+function unitSquareToQuad([p0, p1, p2, p3]: Quad): Homography {
+  const dx1 = p1.x - p2.x;
+  const dx2 = p3.x - p2.x;
+  const dx3 = p0.x - p1.x + p2.x - p3.x;
+  const dy1 = p1.y - p2.y;
+  const dy2 = p3.y - p2.y;
+  const dy3 = p0.y - p1.y + p2.y - p3.y;
+  if (dx3 === 0 && dy3 === 0) {
+    return [p1.x - p0.x, p2.x - p1.x, p0.x, p1.y - p0.y, p2.y - p1.y, p0.y, 0, 0];
+  }
+  const denominator = dx1 * dy2 - dx2 * dy1;
+  const g = (dx3 * dy2 - dx2 * dy3) / denominator;
+  const h = (dx1 * dy3 - dx3 * dy1) / denominator;
+  return [
+    p1.x - p0.x + g * p1.x, p3.x - p0.x + h * p3.x, p0.x,
+    p1.y - p0.y + g * p1.y, p3.y - p0.y + h * p3.y, p0.y,
+    g, h,
+  ];
+}
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+/** True when the corners form a convex, clockwise quadrilateral (no crossed or folded edges). */
+export function isConvexQuad(quad: Quad): boolean {
+  return quad.every((point, i) => {
+    const next = quad[(i + 1) % 4];
+    const after = quad[(i + 2) % 4];
+    const cross = (next.x - point.x) * (after.y - next.y) - (next.y - point.y) * (after.x - next.x);
+    return cross > 0;
+  });
+}
+
+/**
+ * Cut the board out of `image` and straighten it into a square JPEG. `corners`
+ * are fractions of the image size, as the crop handles store them.
+ */
+export async function warpToSquare(image: File, corners: Quad): Promise<File> {
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(image, { imageOrientation: 'from-image' });
+  } catch {
+    throw new ImagePreparationError("This browser can't read that image, so it can't be cropped.");
+  }
+  try {
+    const scale = Math.min(1, MAX_SOURCE_DIMENSION / Math.max(bitmap.width, bitmap.height));
+    const width = Math.round(bitmap.width * scale);
+    const height = Math.round(bitmap.height * scale);
+    const quad = corners.map(({ x, y }) => ({ x: x * width, y: y * height })) as Quad;
+    const longestEdge = Math.max(...quad.map((point, i) => distance(point, quad[(i + 1) % 4])));
+    const size = Math.round(Math.min(MAX_OUTPUT_SIZE, Math.max(MIN_OUTPUT_SIZE, longestEdge)));
+
+    const sourceCanvas = document.createElement('canvas');
+    sourceCanvas.width = width;
+    sourceCanvas.height = height;
+    const sourceContext = sourceCanvas.getContext('2d');
+    const outputCanvas = document.createElement('canvas');
+    outputCanvas.width = size;
+    outputCanvas.height = size;
+    const outputContext = outputCanvas.getContext('2d');
+    if (!sourceContext || !outputContext) throw new ImagePreparationError('Could not process the image in this browser.');
+    sourceContext.drawImage(bitmap, 0, 0, width, height);
+    const source = sourceContext.getImageData(0, 0, width, height).data;
+    const output = outputContext.createImageData(size, size);
+
+    // Walk the output square and pull each pixel from the photo (bilinear sampling)
+    const [a, b, c, d, e, f, g, h] = unitSquareToQuad(quad);
+    for (let row = 0; row < size; row++) {
+      const v = (row + 0.5) / size;
+      for (let col = 0; col < size; col++) {
+        const u = (col + 0.5) / size;
+        const w = g * u + h * v + 1;
+        const sx = Math.min(width - 1, Math.max(0, (a * u + b * v + c) / w - 0.5));
+        const sy = Math.min(height - 1, Math.max(0, (d * u + e * v + f) / w - 0.5));
+        const x0 = Math.floor(sx);
+        const y0 = Math.floor(sy);
+        const x1 = Math.min(width - 1, x0 + 1);
+        const y1 = Math.min(height - 1, y0 + 1);
+        const fx = sx - x0;
+        const fy = sy - y0;
+        const out = (row * size + col) * 4;
+        for (let channel = 0; channel < 4; channel++) {
+          const top = source[(y0 * width + x0) * 4 + channel] * (1 - fx) + source[(y0 * width + x1) * 4 + channel] * fx;
+          const bottom = source[(y1 * width + x0) * 4 + channel] * (1 - fx) + source[(y1 * width + x1) * 4 + channel] * fx;
+          output.data[out + channel] = top * (1 - fy) + bottom * fy;
+        }
+      }
+    }
+    outputContext.putImageData(output, 0, 0);
+
+    const blob = await new Promise<Blob | null>(resolve => outputCanvas.toBlob(resolve, 'image/jpeg', 0.92));
+    if (!blob) throw new ImagePreparationError('Could not process the image in this browser.');
+    const baseName = image.name.replace(/\.[^.]+$/, '') || 'board';
+    return new File([blob], `${baseName}-crop.jpg`, { type: 'image/jpeg' });
+  } finally {
+    bitmap.close();
+  }
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { getLineEnd, getPath } from './moveTree';
+import { buildLinePgn, parsePgn } from './pgn';
+
+const sans = (tree: ReturnType<typeof parsePgn>['tree'], endId: number) =>
+  getPath(tree, endId).slice(1).map(id => tree.nodes[id].san);
+
+describe('parsePgn', () => {
+  it('reads headers, comments and nested variations', () => {
+    const { headers, tree } = parsePgn([
+      '[Event "Club match"]',
+      '[White "Morphy, Paul"]',
+      '',
+      '1. e4 {King pawn} e5 (1... c5 2. Nf3 (2. c3) d6) 2. Nf3 1-0',
+    ].join('\n'));
+    expect(headers).toMatchObject({ Event: 'Club match', White: 'Morphy, Paul', Result: '1-0' });
+    expect(sans(tree, getLineEnd(tree, tree.rootId))).toEqual(['e4', 'e5', 'Nf3']);
+    const e4 = tree.nodes[tree.rootId].children[0];
+    expect(tree.nodes[e4].comment).toBe('King pawn');
+    const [, c5] = tree.nodes[e4].children;
+    expect(sans(tree, getLineEnd(tree, c5))).toEqual(['e4', 'c5', 'Nf3', 'd6']);
+    expect(tree.nodes[c5].children.map(id => tree.nodes[id].san)).toEqual(['Nf3', 'c3']);
+  });
+
+  it('accepts castling written with zeros', () => {
+    const { tree } = parsePgn('1. e4 e5 2. Nf3 Nc6 3. Bc4 Bc5 4. 0-0');
+    expect(tree.nodes[getLineEnd(tree, tree.rootId)].san).toBe('O-O');
+  });
+
+  it('names the first illegal move', () => {
+    expect(() => parsePgn('1. e4 e5 2. Ke3')).toThrow('Illegal move "Ke3" at 2.');
+    expect(() => parsePgn('1. e4 e5 2. Nf3 Ke6')).toThrow('Illegal move "Ke6" at 2...');
+  });
+
+  it('rejects an invalid FEN header', () => {
+    expect(() => parsePgn('[FEN "nonsense"]\n\n1. e4')).toThrow(/FEN header/);
+  });
+});
+
+describe('buildLinePgn', () => {
+  it('writes the seven tag roster and numbers Black moves after a comment', () => {
+    const { tree } = parsePgn('1. e4 {Best by test} e5 2. Nf3');
+    const pgn = buildLinePgn(tree, getLineEnd(tree, tree.rootId), { White: 'Me' });
+    expect(pgn).toContain('[White "Me"]');
+    expect(pgn).toContain('[Result "*"]');
+    expect(pgn.trim().split('\n').pop()).toBe('1. e4 {Best by test} 1... e5 2. Nf3 *');
+  });
+
+  it('adds SetUp and FEN when the line starts elsewhere, and parses back to the same moves', () => {
+    const fen = '4k3/8/8/8/8/8/4P3/4K3 b - - 0 40';
+    const { tree } = parsePgn(`[SetUp "1"]\n[FEN "${fen}"]\n\n40... Kd7 41. e4`);
+    const end = getLineEnd(tree, tree.rootId);
+    const pgn = buildLinePgn(tree, end);
+    expect(pgn).toContain(`[FEN "${fen}"]`);
+    expect(pgn).toContain('40... Kd7 41. e4');
+    const reparsed = parsePgn(pgn).tree;
+    expect(sans(reparsed, getLineEnd(reparsed, reparsed.rootId))).toEqual(['Kd7', 'e4']);
+  });
+});
@@ -0,0 +1,161 @@
+import { Chess } from 'chess.js';
+import type { Key } from 'chessground/types';
+import { INITIAL_FEN, splitFen } from './fen';
+import { addMove, createTree, getPath, type MoveTree } from './moveTree';
+
+export type PgnHeaders = Record<string, string>;
+
+export interface ParsedPgn {
+  headers: PgnHeaders;
+  tree: MoveTree;
+}
+
+const HEADER_PATTERN = /^\s*\[(\w+)\s+"((?:[^"\\]|\\.)*)"\]\s*$/;
+// Order matters: results before move numbers ("1-0" vs "1."), move numbers before SAN ("1.e4")
+const TOKEN_PATTERN = /\{([^}]*)\}|;([^\n]*)|(\()|(\))|\$\d+|(1-0|0-1|1\/2-1\/2|\*)|\d+\.+|(\[[^\]]*\])|([^\s(){};[\]]+)/g;
+
+const SEVEN_TAG_ROSTER: PgnHeaders = {
+  Event: '?',
+  Site: 'Chess Atlas',
+  Date: '????.??.??',
+  Round: '?',
+  White: '?',
+  Black: '?',
+  Result: '*',
+};
+
+const cleanComment = (text: string): string => text.replace(/\s+/g, ' ').trim();
+
+const appendComment = (existing: string | undefined, text: string): string =>
+  existing ? `${existing} ${text}` : text;
+
+function withComment(tree: MoveTree, nodeId: number, text: string): MoveTree {
+  const comment = cleanComment(text);
+  if (!comment) return tree;
+  const node = tree.nodes[nodeId];
+  return { ...tree, nodes: { ...tree.nodes, [nodeId]: { ...node, comment: appendComment(node.comment, comment) } } };
+}
+
+/**
+ * Parse the first game in `pgn` into a move tree, keeping comments and (nested)
+ * variations. Throws an Error naming the first illegal move.
+ */
+export function parsePgn(pgn: string): ParsedPgn {
+  const headers: PgnHeaders = {};
+  const lines = pgn.replace(/\r\n?/g, '\n').split('\n');
+  let firstMoveLine = 0;
+  while (firstMoveLine < lines.length) {
+    const line = lines[firstMoveLine];
+    const match = HEADER_PATTERN.exec(line);
+    if (match) headers[match[1]] = match[2].replace(/\\(.)/g, '$1');
+    else if (line.trim() !== '') break;
+    firstMoveLine++;
+  }
+
+  let rootFen = INITIAL_FEN;
+  if (headers.FEN) {
+    try {
+      rootFen = new Chess(headers.FEN).fen();
+    } catch {
+      throw new Error(`The FEN header is not a valid position: ${headers.FEN}`);
+    }
+  }
+
+  let tree = createTree(rootFen);
+  let currentId = tree.rootId;
+  let lastMoveId: number | null = null;
+  const variationStack: Array<{ currentId: number; lastMoveId: number | null }> = [];
+
+  const movetext = lines.slice(firstMoveLine).join('\n');
+  for (const match of movetext.matchAll(TOKEN_PATTERN)) {
+    const [, braceComment, lineComment, open, close, result, header, san] = match;
+    if (braceComment !== undefined || lineComment !== undefined) {
+      tree = withComment(tree, lastMoveId ?? currentId, braceComment ?? lineComment);
+    } else if (open) {
+      if (lastMoveId === null) throw new Error('Variation opened before any move was played.');
+      variationStack.push({ currentId, lastMoveId });
+      // An alternative to the last move starts from the position before it
+      currentId = tree.nodes[lastMoveId].parentId!;
+      lastMoveId = null;
+    } else if (close) {
+      const frame = variationStack.pop();
+      if (!frame) throw new Error('Unbalanced ")" in PGN.');
+      ({ currentId, lastMoveId } = frame);
+    } else if ((result || header) && variationStack.length === 0) {
+      if (result && !headers.Result) headers.Result = result;
+      break; // end of the first game
+    } else if (san) {
+      const chess = new Chess(tree.nodes[currentId].fen);
+      const normalized = san.replace(/0-0-0/g, 'O-O-O').replace(/0-0/g, 'O-O');
+      let move;
+      try {
+        move = chess.move(normalized, { strict: false });
+      } catch {
+        const [, turn, , , , fullmove] = splitFen(tree.nodes[currentId].fen);
+        throw new Error(`Illegal move "${san}" at ${fullmove}${turn === 'w' ? '.' : '...'}`);
+      }
+      const added = addMove(tree, currentId, {
+        fen: chess.fen(),
+        lastMove: [move.from as Key, move.to as Key],
+        san: move.san,
+      });
+      tree = added.tree;
+      currentId = added.nodeId;
+      lastMoveId = added.nodeId;
+    }
+  }
+  return { headers, tree };
+}
+
+const escapeTag = (value: string): string => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+
+/** Wrap movetext tokens at `width` columns, as the PGN spec recommends. */
+function wrapTokens(tokens: string[], width = 80): string {
+  const lines: string[] = [];
+  let line = '';
+  for (const token of tokens) {
+    if (line && line.length + 1 + token.length > width) {
+      lines.push(line);
+      line = token;
+    } else {
+      line = line ? `${line} ${token}` : token;
+    }
+  }
+  if (line) lines.push(line);
+  return lines.join('\n');
+}
+
+/** PGN for the line from the root to `endId`, with comments. Adds SetUp/FEN when not from the start position. */
+export function buildLinePgn(tree: MoveTree, endId: number, headers: PgnHeaders = {}): string {
+  const rootFen = tree.nodes[tree.rootId].fen;
+  const tags: PgnHeaders = { ...SEVEN_TAG_ROSTER, ...headers };
+  delete tags.SetUp;
+  delete tags.FEN;
+  if (rootFen !== INITIAL_FEN) {
+    tags.SetUp = '1';
+    tags.FEN = rootFen;
+  }
+  const result = tags.Result || '*';
+
+  const tokens: string[] = [];
+  const root = tree.nodes[tree.rootId];
+  if (root.comment) tokens.push(`{${root.comment}}`);
+  // Black's move needs an explicit "N..." at the start and after a comment
+  let needsNumber = true;
+  for (const id of getPath(tree, endId).slice(1)) {
+    const node = tree.nodes[id];
+    const [, turn, , , , fullmove] = splitFen(tree.nodes[node.parentId!].fen);
+    if (turn === 'w') tokens.push(`${fullmove}.`);
+    else if (needsNumber) tokens.push(`${fullmove}...`);
+    tokens.push(node.san ?? '');
+    needsNumber = false;
+    if (node.comment) {
+      tokens.push(`{${node.comment}}`);
+      needsNumber = true;
+    }
+  }
+  tokens.push(result);
+
+  const headerText = Object.entries(tags).map(([name, value]) => `[${name} "${escapeTag(value)}"]`).join('\n');
+  return `${headerText}\n\n${wrapTokens(tokens)}\n`;
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { diagnosePosition, isWellFormedFen } from './positionDiagnostics';
+
+const START = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+// Black's king stands in check from the queen on e7
+const QUEEN_CHECK = '4k3/4Q3/8/8/8/8/8/4K3';
+
+const codes = (fen: string) => diagnosePosition(fen).map(problem => problem.code);
+
+describe('diagnosePosition', () => {
+  it('finds nothing wrong with the start position', () => {
+    expect(diagnosePosition(START)).toEqual([]);
+  });
+
+  it('handles a placement-only FEN, reading it as White to move', () => {
+    expect(codes(QUEEN_CHECK)).toEqual(['opponent-in-check']);
+  });
+
+  it('handles a FEN that stops after the side to move', () => {
+    expect(codes(`${QUEEN_CHECK} w`)).toEqual(['opponent-in-check']);
+    expect(codes(`${QUEEN_CHECK} b`)).toEqual([]);
+  });
+
+  it('points at the king in check and its attacker', () => {
+    const [problem] = diagnosePosition(`${QUEEN_CHECK} w - - 0 1`);
+    expect(problem.squares).toEqual(['e8', 'e7']);
+  });
+
+  it('reports a malformed FEN instead of throwing', () => {
+    expect(codes('not a fen')).toEqual(['malformed-fen']);
+    expect(codes('8/8/8/8/8/8/8 w - - 0 1')).toEqual(['malformed-fen']);
+  });
+
+  it('reports missing kings and castling rights without their pieces', () => {
+    expect(codes('8/8/8/8/8/8/8/4K3 w - - 0 1')).toEqual(['missing-king']);
+    expect(codes('4k3/8/8/8/8/8/8/4K3 w K - 0 1')).toEqual(['bad-castling-rights']);
+  });
+});
+
+describe('isWellFormedFen', () => {
+  it('accepts anything from a bare placement up to all six fields', () => {
+    expect(isWellFormedFen(QUEEN_CHECK)).toBe(true);
+    expect(isWellFormedFen(`${QUEEN_CHECK} b`)).toBe(true);
+    expect(isWellFormedFen(START)).toBe(true);
+  });
+
+  it('rejects a bad side to move or a short rank', () => {
+    expect(isWellFormedFen(`${QUEEN_CHECK} x`)).toBe(false);
+    expect(isWellFormedFen('4k3/4Q3/8/8/8/8/8/4K2 w')).toBe(false);
+  });
+});
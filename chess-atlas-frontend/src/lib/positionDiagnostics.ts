@@ -0,0 +1,180 @@
+import { Chess, type Square } from 'chess.js';
+import type { Key, Piece } from 'chessground/types';
+import { readPieces, splitFen, type CastlingRight } from './fen';
+import { CASTLING_HOMES } from './fenInference';
+
+export type ProblemCode =
+  | 'malformed-fen'
+  | 'missing-king'
+  | 'extra-king'
+  | 'pawn-on-back-rank'
+  | 'too-many-pawns'
+  | 'impossible-piece-count'
+  | 'opponent-in-check'
+  | 'bad-castling-rights'
+  | 'bad-en-passant';
+
+export interface PositionProblem {
+  code: ProblemCode;
+  message: string;
+  /** Squares to highlight on the board; empty when the problem isn't tied to a square. */
+  squares: Key[];
+}
+
+type Color = Piece['color'];
+
+const COLORS: Color[] = ['white', 'black'];
+
+const capitalize = (color: Color) => (color === 'white' ? 'White' : 'Black');
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+/** Structural check only: eight ranks of eight squares, known piece letters, a side to move. */
+export function isWellFormedFen(fen: string): boolean {
+  const fields = fen.trim().split(/\s+/);
+  if (fields.length < 1 || fields.length > 6) return false;
+  if (fields[1] !== undefined && fields[1] !== 'w' && fields[1] !== 'b') return false;
+  const ranks = fields[0].split('/');
+  if (ranks.length !== 8) return false;
+  return ranks.every(rank => {
+    if (!/^[1-8pnbrqkPNBRQK]+$/.test(rank)) return false;
+    const width = [...rank].reduce((sum, ch) => sum + (/\d/.test(ch) ? Number(ch) : 1), 0);
+    return width === 8;
+  });
+}
+
+/**
+ * Everything that makes `fen` an impossible or unplayable position, in roughly
+ * the order a user should fix them. An empty list means the position looks legal.
+ * chess.js only rejects a handful of these, so this runs its own checks.
+ */
+export function diagnosePosition(fen: string): PositionProblem[] {
+  if (!isWellFormedFen(fen)) {
+    return [{ code: 'malformed-fen', message: 'The FEN string is malformed.', squares: [] }];
+  }
+  const problems: PositionProblem[] = [];
+  const [, turn, castling, enPassant] = splitFen(fen);
+  const pieces = readPieces(fen);
+  const squaresOf = (color: Color, role: Piece['role']) =>
+    [...pieces].filter(([, p]) => p.color === color && p.role === role).map(([key]) => key);
+
+  for (const color of COLORS) {
+    const kings = squaresOf(color, 'king');
+    if (kings.length === 0) {
+      problems.push({ code: 'missing-king', message: `${capitalize(color)} has no king.`, squares: [] });
+    } else if (kings.length > 1) {
+      problems.push({ code: 'extra-king', message: `${capitalize(color)} has ${kings.length} kings.`, squares: kings });
+    }
+  }
+
+  const backRankPawns = [...pieces]
+    .filter(([key, p]) => p.role === 'pawn' && (key[1] === '1' || key[1] === '8'))
+    .map(([key]) => key);
+  if (backRankPawns.length > 0) {
+    problems.push({
+      code: 'pawn-on-back-rank',
+      message: `Pawns can't stand on the first or eighth rank (${backRankPawns.join(', ')}).`,
+      squares: backRankPawns,
+    });
+  }
+
+  for (const color of COLORS) {
+    const pawns = squaresOf(color, 'pawn');
+    if (pawns.length > 8) {
+      problems.push({
+        code: 'too-many-pawns',
+        message: `${capitalize(color)} has ${pawns.length} pawns; the maximum is 8.`,
+        squares: pawns,
+      });
+    }
+    // Every piece beyond the starting set must have come from a promoted pawn
+    const promoted =
+      Math.max(0, squaresOf(color, 'queen').length - 1) +
+      Math.max(0, squaresOf(color, 'rook').length - 2) +
+      Math.max(0, squaresOf(color, 'bishop').length - 2) +
+      Math.max(0, squaresOf(color, 'knight').length - 2);
+    const total = [...pieces.values()].filter(p => p.color === color).length;
+    if (total > 16 || (pawns.length <= 8 && pawns.length + promoted > 8)) {
+      problems.push({
+        code: 'impossible-piece-count',
+        message: total > 16
+          ? `${capitalize(color)} has ${total} pieces; the maximum is 16.`
+          : `${capitalize(color)} has ${plural(promoted, 'extra piece')} but only ${8 - pawns.length} pawns could have promoted.`,
+        squares: [...pieces].filter(([, p]) => p.color === color && p.role !== 'pawn' && p.role !== 'king').map(([key]) => key),
+      });
+    }
+  }
+
+  const sideToMove: Color = turn === 'b' ? 'black' : 'white';
+  const opponent: Color = sideToMove === 'white' ? 'black' : 'white';
+  const opponentKings = squaresOf(opponent, 'king');
+  if (opponentKings.length === 1) {
+    let checkers: Key[] = [];
+    try {
+      // chess.js needs all six fields even with validation off; splitFen fills the ones a short FEN leaves out
+      const board = new Chess(splitFen(fen).join(' '), { skipValidation: true });
+      checkers = board.attackers(opponentKings[0] as Square, sideToMove === 'white' ? 'w' : 'b') as Key[];
+    } catch {
+      // Leave the check test out rather than fail the whole diagnosis
+    }
+    if (checkers.length > 0) {
+      problems.push({
+        code: 'opponent-in-check',
+        message: `${capitalize(opponent)} is in check but it is ${capitalize(sideToMove)} to move. Check the side to move.`,
+        squares: [opponentKings[0], ...checkers],
+      });
+    }
+  }
+
+  if (castling !== '-') {
+    for (const right of castling) {
+      if (!(right in CASTLING_HOMES)) {
+        problems.push({ code: 'bad-castling-rights', message: `Unknown castling flag "${right}".`, squares: [] });
+        continue;
+      }
+      const home = CASTLING_HOMES[right as CastlingRight];
+      const king = pieces.get(home.king);
+      const rook = pieces.get(home.rook);
+      const kingHome = king?.role === 'king' && king.color === home.color;
+      const rookHome = rook?.role === 'rook' && rook.color === home.color;
+      if (!kingHome || !rookHome) {
+        const missing = [!kingHome && `king on ${home.king}`, !rookHome && `rook on ${home.rook}`].filter(Boolean).join(' and ');
+        problems.push({
+          code: 'bad-castling-rights',
+          message: `${home.label} castling is enabled but there is no ${missing}.`,
+          squares: [home.king, home.rook],
+        });
+      }
+    }
+  }
+
+  if (enPassant !== '-') {
+    problems.push(...diagnoseEnPassant(enPassant, sideToMove, pieces));
+  }
+
+  return problems;
+}
+
+function diagnoseEnPassant(square: string, sideToMove: Color, pieces: Map<Key, Piece>): PositionProblem[] {
+  const bad = (message: string, squares: Key[] = []): PositionProblem[] =>
+    [{ code: 'bad-en-passant', message, squares }];
+  if (!/^[a-h][36]$/.test(square)) return bad(`"${square}" is not a possible en-passant square.`);
+  const expectedRank = sideToMove === 'white' ? '6' : '3';
+  const key = square as Key;
+  if (square[1] !== expectedRank) {
+    return bad(`En-passant square ${square} doesn't match ${capitalize(sideToMove)} to move.`, [key]);
+  }
+  // The pawn that just double-stepped sits one rank beyond the target, its start square is empty
+  const direction = sideToMove === 'white' ? -1 : 1;
+  const pawnSquare = `${square[0]}${Number(square[1]) + direction}` as Key;
+  const startSquare = `${square[0]}${Number(square[1]) - direction}` as Key;
+  const pawn = pieces.get(pawnSquare);
+  const mover: Color = sideToMove === 'white' ? 'black' : 'white';
+  if (pawn?.role !== 'pawn' || pawn.color !== mover) {
+    return bad(`En-passant square ${square} set, but there is no ${mover} pawn on ${pawnSquare}.`, [key, pawnSquare]);
+  }
+  if (pieces.has(key) || pieces.has(startSquare)) {
+    return bad(`En-passant square ${square} set, but ${square} or ${startSquare} is occupied.`, [key, startSquare]);
+  }
+  return [];
+}
@@ -0,0 +1,93 @@
+import { lookupPosition, normalizeApiError, type LookupOptions, type VideoResult } from './apiClient';
+import { DEFAULT_FEN_MATCH_MODE, type FenMatchMode } from './fenMatching';
+import { getCachedResults, lookupCacheKey, setCachedResults } from './lookupCache';
+import { deduplicateResults } from './videoResults';
+
+/** How many lookup-position requests one batch keeps in flight at once. */
+const MAX_CONCURRENT_LOOKUPS = 3;
+
+// Requests already on the wire, so a prefetch and a navigation to the same position share one
+const inflight = new Map<string, Promise<VideoResult[]>>();
+
+export function getCachedLookup(fen: string, match: FenMatchMode = DEFAULT_FEN_MATCH_MODE): VideoResult[] | undefined {
+  return getCachedResults(fen, match);
+}
+
+/** Settle with `promise`, or reject as soon as `signal` aborts, whichever comes first. */
+const untilAborted = <T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> => {
+  if (!signal) return promise;
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(new DOMException('Aborted', 'AbortError'));
+    if (signal.aborted) { onAbort(); return; }
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+};
+
+/**
+ * Deduplicated videos for `fen`: from the cache when fresh, by joining a
+ * request already in flight for the same position, or else from the API.
+ */
+export async function lookupPositionCached(fen: string, options: LookupOptions = {}): Promise<VideoResult[]> {
+  const { signal, match = DEFAULT_FEN_MATCH_MODE } = options;
+  const cached = getCachedResults(fen, match);
+  if (cached) return cached;
+
+  const key = lookupCacheKey(fen, match);
+  const shared = inflight.get(key);
+  if (shared) {
+    try {
+      return await untilAborted(shared, signal);
+    } catch (err) {
+      // The request we joined was cancelled by its owner; ask again on our own behalf
+      if (signal?.aborted || !normalizeApiError(err).cancelled) throw err;
+    }
+  }
+
+  const request = lookupPosition(fen, { signal, match }).then(results => {
+    const deduplicated = deduplicateResults(results);
+    setCachedResults(fen, match, deduplicated);
+    return deduplicated;
+  });
+  inflight.set(key, request);
+  try {
+    return await request;
+  } finally {
+    if (inflight.get(key) === request) inflight.delete(key);
+  }
+}
+
+export interface BatchLookupOptions extends LookupOptions {
+  /** Called once per FEN as it settles; `null` when that lookup failed. */
+  onResult?: (fen: string, results: VideoResult[] | null) => void;
+}
+
+/**
+ * Look up many positions without flooding the server: cached FENs answer
+ * straight away, the rest go out a few at a time in the order given. Aborting
+ * `signal` stops the batch; FENs not yet started are never requested.
+ */
+export async function lookupPositions(
+  fens: string[],
+  { signal, match = DEFAULT_FEN_MATCH_MODE, onResult }: BatchLookupOptions = {},
+): Promise<void> {
+  const pending: string[] = [];
+  for (const fen of new Set(fens)) {
+    const cached = getCachedResults(fen, match);
+    if (cached) onResult?.(fen, cached);
+    else pending.push(fen);
+  }
+
+  const worker = async () => {
+    for (let fen = pending.shift(); fen !== undefined && !signal?.aborted; fen = pending.shift()) {
+      try {
+        const results = await lookupPositionCached(fen, { signal, match });
+        onResult?.(fen, results);
+      } catch (err) {
+        if (normalizeApiError(err).cancelled || signal?.aborted) return;
+        onResult?.(fen, null);
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(MAX_CONCURRENT_LOOKUPS, pending.length) }, worker));
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { INITIAL_FEN } from './fen';
+import {
+  buildExplorerSearch,
+  buildPositionPath,
+  decodeFenFromPath,
+  explorerFenError,
+  parseExplorerSearch,
+} from './positionUrl';
+
+const FEN = 'r1bqkbnr/pppp1ppp/2n5/4p3/4P3/5N2/PPPP1PPP/RNBQKB1R w KQkq - 2 3';
+
+describe('decodeFenFromPath', () => {
+  it('reads back what buildPositionPath wrote', () => {
+    const path = buildPositionPath(FEN, 'white');
+    expect(decodeFenFromPath(path.replace(/^\/position\//, ''))).toBe(FEN);
+  });
+
+  it('leaves a literal "%" alone, since the router has already decoded the path', () => {
+    expect(decodeFenFromPath('100%')).toBe('100%');
+  });
+
+  it('keeps a placement-only path as it is', () => {
+    expect(decodeFenFromPath('4k3/8/8/8/8/8/8/4K3')).toBe('4k3/8/8/8/8/8/8/4K3');
+  });
+});
+
+describe('explorer search', () => {
+  it('round-trips a line, ply and orientation', () => {
+    const state = parseExplorerSearch('moves=e4,e5,Nf3&ply=1&orientation=black');
+    expect(state.history.map(entry => entry.san)).toEqual([undefined, 'e4', 'e5', 'Nf3']);
+    expect(state.historyIndex).toBe(1);
+    expect(state.orientation).toBe('black');
+    expect(buildExplorerSearch(state)).toBe('moves=e4,e5,Nf3&ply=1&orientation=black');
+  });
+
+  it('stops at the first move that is not legal', () => {
+    expect(parseExplorerSearch('moves=e4,Ke2,Nf3').history).toHaveLength(2);
+  });
+
+  it('falls back to the start position for a FEN the Explorer refuses', () => {
+    expect(parseExplorerSearch('fen=4k3/4Q3/8/8/8/8/8/4K3 w - - 0 1').history[0].fen).toBe(INITIAL_FEN);
+  });
+});
+
+describe('explorerFenError', () => {
+  it('accepts a legal position', () => {
+    expect(explorerFenError(FEN)).toBeNull();
+  });
+
+  it('refuses a position where the side not to move is in check', () => {
+    expect(explorerFenError('4k3/4Q3/8/8/8/8/8/4K3 w - - 0 1')).toMatch(/Black is in check/);
+    expect(explorerFenError('4k3/4Q3/8/8/8/8/8/4K3 b - - 0 1')).toBeNull();
+  });
+});
@@ -0,0 +1,101 @@
+import { Chess, validateFen } from 'chess.js';
+import type { Key } from 'chessground/types';
+import { INITIAL_FEN } from './fen';
+import { diagnosePosition } from './positionDiagnostics';
+
+type Orientation = 'white' | 'black';
+
+export interface HistoryEntry {
+  fen: string;
+  lastMove?: [Key, Key];
+  san?: string;
+}
+
+export interface ExplorerUrlState {
+  history: HistoryEntry[];
+  historyIndex: number;
+  orientation: Orientation;
+}
+
+/** Play `sans` from `rootFen`, stopping at the first move that doesn't parse. */
+export function replayMoves(rootFen: string, sans: string[]): HistoryEntry[] {
+  const chess = new Chess(rootFen);
+  const history: HistoryEntry[] = [{ fen: chess.fen() }];
+  for (const san of sans) {
+    try {
+      const move = chess.move(san);
+      history.push({ fen: chess.fen(), lastMove: [move.from as Key, move.to as Key], san: move.san });
+    } catch {
+      break;
+    }
+  }
+  return history;
+}
+
+// '/' and ',' are legal in a query string; leaving them unescaped keeps shared links readable
+const toSearchString = (params: URLSearchParams): string =>
+  params.toString().replace(/%2F/gi, '/').replace(/%2C/gi, ',');
+
+/**
+ * Explorer state as a query string (no leading '?'), e.g.
+ * `fen=...&moves=e4,e5,Nf3&ply=2&orientation=black`. Defaults are omitted.
+ */
+export function buildExplorerSearch({ history, historyIndex, orientation }: ExplorerUrlState): string {
+  const params = new URLSearchParams();
+  if (history[0].fen !== INITIAL_FEN) params.set('fen', history[0].fen);
+  const sans = history.slice(1).map(entry => entry.san ?? '');
+  if (sans.length > 0) params.set('moves', sans.join(','));
+  if (historyIndex !== history.length - 1) params.set('ply', String(historyIndex));
+  if (orientation !== 'white') params.set('orientation', orientation);
+  return toSearchString(params);
+}
+
+/** Inverse of buildExplorerSearch. Anything invalid falls back to the defaults. */
+export function parseExplorerSearch(search: string): ExplorerUrlState {
+  const params = new URLSearchParams(search);
+  let rootFen = params.get('fen') ?? INITIAL_FEN;
+  if (explorerFenError(rootFen)) rootFen = INITIAL_FEN;
+  const sans = (params.get('moves') ?? '').split(',').filter(Boolean);
+  const history = replayMoves(rootFen, sans);
+  const ply = Number(params.get('ply'));
+  const historyIndex = params.has('ply') && Number.isInteger(ply) && ply >= 0 && ply < history.length
+    ? ply
+    : history.length - 1;
+  const orientation = params.get('orientation') === 'black' ? 'black' : 'white';
+  return { history, historyIndex, orientation };
+}
+
+/** Why `fen` can't be the Explorer's starting position, or null when it can. */
+export function explorerFenError(fen: string): string | null {
+  const { ok, error } = validateFen(fen.trim());
+  if (!ok) return error ?? 'Invalid FEN.';
+  // chess.js accepts a position where the side that just moved is still in check
+  return diagnosePosition(fen).find(problem => problem.code === 'opponent-in-check')?.message ?? null;
+}
+
+/** Explorer link rooted at `fen`, with no moves played yet. */
+export function buildExplorerPath(fen: string, orientation: Orientation): string {
+  const search = buildExplorerSearch({ history: [{ fen: new Chess(fen).fen() }], historyIndex: 0, orientation });
+  return search ? `/explorer?${search}` : '/explorer';
+}
+
+/** True when two explorer searches differ only in board orientation. */
+export function isSamePosition(a: string, b: string): boolean {
+  const strip = (search: string) => {
+    const params = new URLSearchParams(search);
+    params.delete('orientation');
+    return params.toString();
+  };
+  return strip(a) === strip(b);
+}
+
+/** `/position/<fen>` link for the Analyzer, with spaces written as '_' like Lichess does. */
+export function buildPositionPath(fen: string, orientation: Orientation): string {
+  const path = `/position/${fen.trim().replace(/ /g, '_')}`;
+  return orientation === 'black' ? `${path}?orientation=black` : path;
+}
+
+/** Inverse of buildPositionPath. `path` is the router's splat param, which arrives already percent-decoded. */
+export function decodeFenFromPath(path: string): string {
+  return path.replace(/_/g, ' ').trim();
+}
@@ -0,0 +1,136 @@
+import type { Orientation } from './analyzeBoard';
+import { DEFAULT_FEN_MATCH_MODE, FEN_MATCH_MODES, type FenMatchMode } from './fenMatching';
+
+/**
+ * User preferences, persisted to localStorage. React code reads them through
+ * SettingsProvider/useSettings; apiClient reads getSettings() directly since
+ * it lives outside the component tree.
+ */
+
+export type BoardTheme = 'brown' | 'blue' | 'green' | 'grey';
+export type PieceSet = 'cburnett' | 'glyphs';
+export type ColorScheme = 'system' | 'light' | 'dark';
+
+export interface Settings {
+  boardTheme: BoardTheme;
+  pieceSet: PieceSet;
+  colorScheme: ColorScheme;
+  /** Photo side and board orientation for a fresh Analyzer, and for an Explorer opened without a line. */
+  defaultOrientation: Orientation;
+  /** Assumed when a photo gives no clue whose move it is. */
+  defaultSideToMove: 'w' | 'b';
+  /** How loosely the Explorer matches positions when looking up videos. */
+  fenMatchMode: FenMatchMode;
+  /** Blank means the build-time endpoint. */
+  analyzeApiUrl: string;
+  lookupApiUrl: string;
+  analyzeTimeoutSeconds: number;
+  lookupTimeoutSeconds: number;
+}
+
+export const BOARD_THEMES: Record<BoardTheme, string> = {
+  brown: 'Brown',
+  blue: 'Blue',
+  green: 'Green',
+  grey: 'Grey',
+};
+
+export const PIECE_SETS: Record<PieceSet, string> = {
+  cburnett: 'Cburnett',
+  glyphs: 'Unicode glyphs',
+};
+
+export const COLOR_SCHEMES: Record<ColorScheme, string> = {
+  system: 'Follow system',
+  light: 'Light',
+  dark: 'Dark',
+};
+
+export const TIMEOUT_LIMITS = {
+  analyze: { min: 10, max: 300 },
+  lookup: { min: 2, max: 60 },
+};
+
+export const DEFAULT_SETTINGS: Settings = {
+  boardTheme: 'brown',
+  pieceSet: 'cburnett',
+  colorScheme: 'system',
+  defaultOrientation: 'white',
+  defaultSideToMove: 'w',
+  fenMatchMode: DEFAULT_FEN_MATCH_MODE,
+  analyzeApiUrl: '',
+  lookupApiUrl: '',
+  analyzeTimeoutSeconds: 60,
+  lookupTimeoutSeconds: 10,
+};
+
+const STORAGE_KEY = 'chess-atlas.settings';
+// Where the match mode lived before it joined the other settings
+const LEGACY_MATCH_MODE_KEY = 'chess-atlas.fenMatchMode';
+
+let current: Settings | null = null;
+
+const pick = <T extends string>(value: unknown, options: Record<T, string>, fallback: T): T =>
+  typeof value === 'string' && value in options ? (value as T) : fallback;
+
+const clampSeconds = (value: unknown, { min, max }: { min: number; max: number }, fallback: number): number =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(max, Math.max(min, Math.round(value))) : fallback;
+
+/** Blank or an absolute http(s) URL; anything else falls back to the build-time endpoint. */
+export function endpointError(url: string): string | null {
+  if (!url.trim()) return null;
+  try {
+    const { protocol } = new URL(url.trim());
+    return protocol === 'http:' || protocol === 'https:' ? null : 'Use an http:// or https:// address.';
+  } catch {
+    return 'Not a valid URL.';
+  }
+}
+
+const readEndpoint = (value: unknown): string =>
+  typeof value === 'string' && endpointError(value) === null ? value.trim() : '';
+
+/** Fills every missing or invalid field from the defaults, so older or hand-edited storage still loads. */
+function sanitize(raw: unknown): Settings {
+  const stored = typeof raw === 'object' && raw !== null ? (raw as Record<string, unknown>) : {};
+  const d = DEFAULT_SETTINGS;
+  return {
+    boardTheme: pick(stored.boardTheme, BOARD_THEMES, d.boardTheme),
+    pieceSet: pick(stored.pieceSet, PIECE_SETS, d.pieceSet),
+    colorScheme: pick(stored.colorScheme, COLOR_SCHEMES, d.colorScheme),
+    defaultOrientation: stored.defaultOrientation === 'black' ? 'black' : 'white',
+    defaultSideToMove: stored.defaultSideToMove === 'b' ? 'b' : 'w',
+    fenMatchMode: pick(stored.fenMatchMode, FEN_MATCH_MODES, d.fenMatchMode),
+    analyzeApiUrl: readEndpoint(stored.analyzeApiUrl),
+    lookupApiUrl: readEndpoint(stored.lookupApiUrl),
+    analyzeTimeoutSeconds: clampSeconds(stored.analyzeTimeoutSeconds, TIMEOUT_LIMITS.analyze, d.analyzeTimeoutSeconds),
+    lookupTimeoutSeconds: clampSeconds(stored.lookupTimeoutSeconds, TIMEOUT_LIMITS.lookup, d.lookupTimeoutSeconds),
+  };
+}
+
+export function getSettings(): Settings {
+  if (current) return current;
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}') as Record<string, unknown>;
+    const legacyMatchMode = localStorage.getItem(LEGACY_MATCH_MODE_KEY);
+    current = sanitize({ fenMatchMode: legacyMatchMode, ...stored });
+    if (legacyMatchMode !== null) {
+      localStorage.removeItem(LEGACY_MATCH_MODE_KEY);
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(current));
+    }
+  } catch {
+    current = { ...DEFAULT_SETTINGS };
+  }
+  return current;
+}
+
+/** Merges `patch` into the stored settings and returns the result. */
+export function storeSettings(patch: Partial<Settings>): Settings {
+  current = sanitize({ ...getSettings(), ...patch });
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(current));
+  } catch {
+    // Private mode or a full quota: keep the settings for this session only
+  }
+  return current;
+}
@@ -0,0 +1,71 @@
+import { useEffect, useRef } from 'react';
+
+/**
+ * App-wide keyboard shortcuts and command-palette actions. Pages register
+ * what they can do with `useShortcuts`; KeyboardShortcuts (mounted once in
+ * App) owns the single keydown listener, the Ctrl+K palette and the "?" help.
+ */
+
+export interface ShortcutAction {
+  id: string;
+  label: string;
+  /** Heading in the help overlay and palette, usually the page name. */
+  group: string;
+  /** `KeyboardEvent.key` to bind, e.g. 'ArrowLeft', 'f', 'Home'. Palette-only when absent. */
+  key?: string;
+  /** Disabled actions stay listed in the help but neither the key nor the palette runs them. */
+  disabled?: boolean;
+  run: () => void;
+}
+
+type ActionSource = () => ShortcutAction[];
+
+const sources = new Set<ActionSource>();
+
+/**
+ * Register `actions` for as long as the calling component is mounted. The
+ * latest array is read at key-press time, so handlers never go stale.
+ */
+export function useShortcuts(actions: ShortcutAction[]): void {
+  const actionsRef = useRef(actions);
+  useEffect(() => {
+    actionsRef.current = actions;
+  });
+  useEffect(() => {
+    const source: ActionSource = () => actionsRef.current;
+    sources.add(source);
+    return () => { sources.delete(source); };
+  }, []);
+}
+
+export function getActions(): ShortcutAction[] {
+  return [...sources].flatMap(source => source());
+}
+
+/** True while focus is somewhere the user types, where single-key shortcuts must stay quiet. */
+export function isTypingTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable) return true;
+  if (target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement) return true;
+  if (target instanceof HTMLInputElement) {
+    return !['button', 'checkbox', 'radio', 'range', 'reset', 'submit', 'file', 'color'].includes(target.type);
+  }
+  return false;
+}
+
+/** Plain keys only: anything held with Ctrl, Cmd or Alt belongs to the browser. */
+export function findShortcut(event: KeyboardEvent): ShortcutAction | undefined {
+  if (event.ctrlKey || event.metaKey || event.altKey) return undefined;
+  const key = event.key.length === 1 ? event.key.toLowerCase() : event.key;
+  return getActions().find(action => action.key === key && !action.disabled);
+}
+
+const KEY_LABELS: Record<string, string> = {
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  Escape: 'Esc',
+};
+
+export const formatKey = (key: string) => KEY_LABELS[key] ?? (key.length === 1 ? key.toUpperCase() : key);
@@ -0,0 +1,158 @@
+import { Chess } from 'chess.js';
+import engineScriptUrl from 'stockfish/bin/stockfish-18-lite-single.js?url';
+import engineWasmUrl from 'stockfish/bin/stockfish-18-lite-single.wasm?url';
+
+/** One principal variation, with the score from White's point of view. */
+export interface EngineLine {
+  multipv: number;
+  depth: number;
+  /** Centipawns; undefined when the line is a forced mate. */
+  scoreCp?: number;
+  /** Moves to mate; positive when White mates. */
+  mate?: number;
+  /** Moves in UCI notation (e2e4, e7e8q). */
+  pv: string[];
+}
+
+export type SearchLimit =
+  | { kind: 'depth'; depth: number }
+  | { kind: 'time'; milliseconds: number };
+
+export interface SearchOptions {
+  multiPv: number;
+  limit: SearchLimit;
+}
+
+export interface SearchUpdate {
+  fen: string;
+  depth: number;
+  lines: EngineLine[];
+  done: boolean;
+}
+
+export interface UciEngine {
+  /** Analyse `fen`, replacing any running search. `onUpdate` fires on every info line and once more when done. */
+  analyze: (fen: string, options: SearchOptions, onUpdate: (update: SearchUpdate) => void) => void;
+  stop: () => void;
+  destroy: () => void;
+}
+
+interface PendingSearch {
+  fen: string;
+  options: SearchOptions;
+  onUpdate: (update: SearchUpdate) => void;
+}
+
+const INFO_PATTERN = /^info .*\bdepth (\d+)\b.*\bmultipv (\d+)\b.*\bscore (cp|mate) (-?\d+)\b.*\bpv (.+)$/;
+
+/**
+ * Stockfish refuses (or crashes on) positions chess.js would happily load,
+ * most notably when the side that just moved is still in check.
+ */
+export function isEngineSafeFen(fen: string): boolean {
+  try {
+    const chess = new Chess(fen);
+    const parts = chess.fen().split(' ');
+    parts[1] = parts[1] === 'w' ? 'b' : 'w';
+    parts[3] = '-';
+    return !new Chess(parts.join(' ')).isCheck();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Start Stockfish (WASM, single-threaded lite build) in a Web Worker and wrap it in
+ * a small UCI driver. Only one search runs at a time: starting a new one stops the
+ * current search and waits for its `bestmove` before sending the next position, so
+ * stale `info` lines never leak into the new result.
+ */
+export function createUciEngine(onError: (message: string) => void): UciEngine {
+  const worker = new Worker(`${engineScriptUrl}#${encodeURIComponent(engineWasmUrl)}`);
+  let active: PendingSearch | null = null;
+  let queued: PendingSearch | null = null;
+  let stopping = false;
+  let lines: EngineLine[] = [];
+  let depth = 0;
+
+  const send = (command: string) => worker.postMessage(command);
+
+  const start = (search: PendingSearch) => {
+    active = search;
+    lines = [];
+    depth = 0;
+    send('ucinewgame');
+    send(`setoption name MultiPV value ${search.options.multiPv}`);
+    send(`position fen ${search.fen}`);
+    const { limit } = search.options;
+    send(limit.kind === 'depth' ? `go depth ${limit.depth}` : `go movetime ${limit.milliseconds}`);
+  };
+
+  const handleInfo = (message: string) => {
+    if (!active || stopping) return;
+    const match = INFO_PATTERN.exec(message);
+    if (!match) return;
+    const [, depthText, multipvText, scoreKind, scoreText, pvText] = match;
+    // UCI scores are relative to the side to move; flip so positive always favours White
+    const sign = active.fen.split(' ')[1] === 'b' ? -1 : 1;
+    const score = Number(scoreText) * sign;
+    const line: EngineLine = {
+      multipv: Number(multipvText),
+      depth: Number(depthText),
+      pv: pvText.trim().split(/\s+/),
+      ...(scoreKind === 'cp' ? { scoreCp: score } : { mate: score }),
+    };
+    depth = Math.max(depth, line.depth);
+    lines = [...lines.filter(l => l.multipv !== line.multipv), line].sort((a, b) => a.multipv - b.multipv);
+    active.onUpdate({ fen: active.fen, depth, lines, done: false });
+  };
+
+  worker.onmessage = (event: MessageEvent<string>) => {
+    const message = String(event.data);
+    if (message.startsWith('info ')) {
+      handleInfo(message);
+    } else if (message.startsWith('bestmove')) {
+      const finished = active;
+      active = null;
+      if (finished && !stopping) finished.onUpdate({ fen: finished.fen, depth, lines, done: true });
+      stopping = false;
+      if (queued) {
+        const next = queued;
+        queued = null;
+        start(next);
+      }
+    }
+  };
+
+  worker.onerror = event => {
+    event.preventDefault();
+    onError(event.message || 'The engine crashed.');
+  };
+
+  send('uci');
+
+  return {
+    analyze(fen, options, onUpdate) {
+      const search = { fen, options, onUpdate };
+      if (active) {
+        queued = search;
+        if (!stopping) {
+          stopping = true;
+          send('stop');
+        }
+      } else {
+        start(search);
+      }
+    },
+    stop() {
+      queued = null;
+      if (active && !stopping) {
+        stopping = true;
+        send('stop');
+      }
+    },
+    destroy() {
+      worker.terminate();
+    },
+  };
+}
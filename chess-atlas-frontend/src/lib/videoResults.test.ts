@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import type { VideoResult } from './apiClient';
+import { deduplicateResults } from './videoResults';
+
+const hit = (video_id: string, timestamp_seconds: number): VideoResult =>
+  ({ video_id, timestamp_seconds, orientation: 'white' });
+
+describe('deduplicateResults', () => {
+  it('drops hits within 3 s of an earlier one in the same video', () => {
+    const results = [hit('a', 100), hit('a', 102), hit('a', 103), hit('a', 104)];
+    expect(deduplicateResults(results)).toEqual([hit('a', 100), hit('a', 104)]);
+  });
+
+  it('keeps the earliest hit even when it arrives later', () => {
+    expect(deduplicateResults([hit('a', 52), hit('a', 50)])).toEqual([hit('a', 50)]);
+  });
+
+  it('compares timestamps per video only', () => {
+    const results = [hit('a', 10), hit('b', 11), hit('a', 12)];
+    expect(deduplicateResults(results)).toEqual([hit('a', 10), hit('b', 11)]);
+  });
+
+  it('keeps the original order of the survivors', () => {
+    const results = [hit('b', 300), hit('a', 20), hit('b', 10)];
+    expect(deduplicateResults(results)).toEqual(results);
+  });
+});
@@ -0,0 +1,98 @@
+import type { VideoDetails, VideoResult } from './apiClient';
+
+/** Keep the earliest timestamp per video; drop any within 3 s of a kept one. */
+export function deduplicateResults(results: VideoResult[]): VideoResult[] {
+  const grouped = new Map<string, number[]>();
+  for (const r of results) {
+    if (!grouped.has(r.video_id)) grouped.set(r.video_id, []);
+    grouped.get(r.video_id)!.push(r.timestamp_seconds);
+  }
+  const keepMap = new Map<string, Set<number>>();
+  for (const [vid, timestamps] of grouped) {
+    const sorted = [...timestamps].sort((a, b) => a - b);
+    const kept = new Set<number>();
+    let last = -Infinity;
+    for (const ts of sorted) {
+      if (ts - last > 3) { kept.add(ts); last = ts; }
+    }
+    keepMap.set(vid, kept);
+  }
+  return results.filter(r => keepMap.get(r.video_id)?.has(r.timestamp_seconds));
+}
+
+export type PlaylistSort = 'relevance' | 'timestamp' | 'title' | 'hits';
+
+export interface PlaylistOptions {
+  orientation: 'all' | VideoResult['orientation'];
+  /** Matched case-insensitively against the video title and channel. */
+  text: string;
+  sort: PlaylistSort;
+  /** One card per video, with a chip for each timestamp. */
+  grouped: boolean;
+}
+
+export const DEFAULT_PLAYLIST_OPTIONS: PlaylistOptions = { orientation: 'all', text: '', sort: 'relevance', grouped: false };
+
+/** All hits from one video, earliest first. */
+export interface VideoGroup {
+  video_id: string;
+  results: VideoResult[];
+}
+
+export function filterResults(
+  results: VideoResult[],
+  { orientation, text }: PlaylistOptions,
+  details: Map<string, VideoDetails>,
+): VideoResult[] {
+  const query = text.trim().toLowerCase();
+  return results.filter(r => {
+    if (orientation !== 'all' && r.orientation !== orientation) return false;
+    if (!query) return true;
+    const info = details.get(r.video_id);
+    return !!info && `${info.title}\n${info.channel}`.toLowerCase().includes(query);
+  });
+}
+
+/** Groups in order of each video's first appearance in `results`. */
+export function groupResultsByVideo(results: VideoResult[]): VideoGroup[] {
+  const groups = new Map<string, VideoResult[]>();
+  for (const r of results) {
+    if (!groups.has(r.video_id)) groups.set(r.video_id, []);
+    groups.get(r.video_id)!.push(r);
+  }
+  return [...groups].map(([video_id, hits]) => ({
+    video_id,
+    results: [...hits].sort((a, b) => a.timestamp_seconds - b.timestamp_seconds),
+  }));
+}
+
+/**
+ * Order cards for the playlist. "relevance" keeps API order; "hits" ranks by how
+ * often the video reaches this position, counting all of its rows in `results`.
+ * Untitled videos sort after titled ones.
+ */
+export function sortPlaylist<T extends VideoResult | VideoGroup>(
+  items: T[],
+  sort: PlaylistSort,
+  results: VideoResult[],
+  details: Map<string, VideoDetails>,
+): T[] {
+  if (sort === 'relevance') return items;
+  const first = (item: VideoResult | VideoGroup): VideoResult => ('results' in item ? item.results[0] : item);
+  const hits = new Map<string, number>();
+  for (const r of results) hits.set(r.video_id, (hits.get(r.video_id) ?? 0) + 1);
+  return [...items].sort((a, b) => {
+    const ra = first(a);
+    const rb = first(b);
+    if (sort === 'hits') {
+      const diff = (hits.get(rb.video_id) ?? 0) - (hits.get(ra.video_id) ?? 0);
+      if (diff !== 0) return diff;
+    }
+    if (sort === 'title') {
+      const ta = details.get(ra.video_id)?.title;
+      const tb = details.get(rb.video_id)?.title;
+      if (ta !== tb) return ta === undefined ? 1 : tb === undefined ? -1 : ta.localeCompare(tb);
+    }
+    return ra.timestamp_seconds - rb.timestamp_seconds;
+  });
+}
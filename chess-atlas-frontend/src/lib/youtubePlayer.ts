@@ -0,0 +1,127 @@
+/**
+ * Thin wrapper around the YouTube IFrame Player API: loads the script once and
+ * makes sure only one player exists at a time, so two videos never talk over
+ * each other.
+ */
+
+const API_SCRIPT_URL = 'https://www.youtube.com/iframe_api';
+const API_LOAD_TIMEOUT_MS = 15000;
+
+/** The slice of YT.Player the app uses. */
+export interface YouTubePlayer {
+  playVideo: () => void;
+  pauseVideo: () => void;
+  seekTo: (seconds: number, allowSeekAhead: boolean) => void;
+  getCurrentTime: () => number;
+  getPlayerState: () => number;
+  destroy: () => void;
+}
+
+/** YT.PlayerState values. */
+export const PLAYER_STATE = {
+  ENDED: 0,
+  PLAYING: 1,
+  PAUSED: 2,
+} as const;
+
+interface PlayerEvent {
+  target: YouTubePlayer;
+  data: number;
+}
+
+interface PlayerOptions {
+  videoId: string;
+  playerVars?: Record<string, number | string>;
+  events?: {
+    onReady?: (event: PlayerEvent) => void;
+    onStateChange?: (event: PlayerEvent) => void;
+    onError?: (event: PlayerEvent) => void;
+  };
+}
+
+interface YouTubeNamespace {
+  Player: new (element: HTMLElement, options: PlayerOptions) => YouTubePlayer;
+}
+
+declare global {
+  interface Window {
+    YT?: YouTubeNamespace;
+    onYouTubeIframeAPIReady?: () => void;
+  }
+}
+
+export interface PlayerCallbacks {
+  onReady?: (player: YouTubePlayer) => void;
+  onStateChange?: (state: number) => void;
+  /** The video can't be played (removed, private, embedding disabled...). */
+  onError?: () => void;
+}
+
+let apiPromise: Promise<YouTubeNamespace> | null = null;
+let activePlayer: YouTubePlayer | null = null;
+
+function loadApi(): Promise<YouTubeNamespace> {
+  if (apiPromise) return apiPromise;
+  apiPromise = new Promise<YouTubeNamespace>((resolve, reject) => {
+    if (window.YT?.Player) { resolve(window.YT); return; }
+    const timer = setTimeout(() => reject(new Error('The YouTube player could not be loaded.')), API_LOAD_TIMEOUT_MS);
+    const previous = window.onYouTubeIframeAPIReady;
+    window.onYouTubeIframeAPIReady = () => {
+      clearTimeout(timer);
+      previous?.();
+      resolve(window.YT!);
+    };
+    const script = document.createElement('script');
+    script.src = API_SCRIPT_URL;
+    script.async = true;
+    script.onerror = () => {
+      clearTimeout(timer);
+      reject(new Error('The YouTube player could not be loaded.'));
+    };
+    document.head.appendChild(script);
+  }).catch(err => {
+    // Let a later attempt retry, e.g. after the network comes back
+    apiPromise = null;
+    throw err;
+  });
+  return apiPromise;
+}
+
+/**
+ * Replace `element` with a player for `videoId` starting at `startSeconds`.
+ * Any other live player is destroyed first. Returns a disposer; calling it
+ * before the API has loaded cancels the player instead.
+ */
+export function createPlayer(
+  element: HTMLElement,
+  videoId: string,
+  startSeconds: number,
+  { onReady, onStateChange, onError }: PlayerCallbacks,
+): () => void {
+  let disposed = false;
+  let player: YouTubePlayer | null = null;
+
+  void loadApi().then(YT => {
+    if (disposed) return;
+    activePlayer?.destroy();
+    player = new YT.Player(element, {
+      videoId,
+      playerVars: { start: Math.floor(startSeconds), autoplay: 1, rel: 0, playsinline: 1 },
+      events: {
+        onReady: event => { if (!disposed) onReady?.(event.target); },
+        onStateChange: event => { if (!disposed) onStateChange?.(event.data); },
+        onError: () => { if (!disposed) onError?.(); },
+      },
+    });
+    activePlayer = player;
+  }, () => {
+    if (!disposed) onError?.();
+  });
+
+  return () => {
+    disposed = true;
+    if (!player) return;
+    if (activePlayer === player) activePlayer = null;
+    player.destroy();
+  };
+}
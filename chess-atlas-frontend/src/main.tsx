@@ -1,11 +1,26 @@
-import { StrictMode } from 'react'
+import { StrictMode, type ComponentType } from 'react'
 import { createRoot } from 'react-dom/client'
 import { Analytics } from '@vercel/analytics/react'
 import App from './App.tsx'
+import { apiHttp } from './lib/apiClient'
 
-createRoot(document.getElementById('root')!).render(
-  <StrictMode>
-    <App />
-    <Analytics />
-  </StrictMode>,
-)
+// Offline development against canned responses: VITE_USE_MOCK_API=true npm run dev
+async function enableMockBackend(): Promise<ComponentType | null> {
+  if (!import.meta.env.DEV || import.meta.env.VITE_USE_MOCK_API !== 'true') return null
+  const [{ installMockBackend }, { default: MockScenarioPanel }] = await Promise.all([
+    import('./mocks/mockBackend'),
+    import('./mocks/MockScenarioPanel'),
+  ])
+  installMockBackend(apiHttp)
+  return MockScenarioPanel
+}
+
+void enableMockBackend().then(MockScenarioPanel => {
+  createRoot(document.getElementById('root')!).render(
+    <StrictMode>
+      <App />
+      {MockScenarioPanel && <MockScenarioPanel />}
+      <Analytics />
+    </StrictMode>,
+  )
+})
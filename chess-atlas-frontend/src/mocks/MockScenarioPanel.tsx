@@ -0,0 +1,27 @@
+import { useState } from 'react';
+import { MOCK_SCENARIOS, getMockScenario, setMockScenario, type MockScenario } from './mockBackend';
+
+/** Dev-only switcher shown while the mock backend is active. */
+function MockScenarioPanel() {
+  const [scenario, setScenario] = useState<MockScenario>(getMockScenario);
+
+  const handleChange = (next: MockScenario) => {
+    setMockScenario(next);
+    setScenario(next);
+  };
+
+  return (
+    <div className="mock-panel">
+      <label>
+        Mock API
+        <select value={scenario} onChange={e => handleChange(e.target.value as MockScenario)}>
+          {(Object.keys(MOCK_SCENARIOS) as MockScenario[]).map(key => (
+            <option key={key} value={key}>{MOCK_SCENARIOS[key]}</option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+}
+
+export default MockScenarioPanel;
@@ -0,0 +1,207 @@
+import {
+  AxiosError,
+  AxiosHeaders,
+  CanceledError,
+  type AxiosAdapter,
+  type AxiosInstance,
+  type AxiosResponse,
+  type InternalAxiosRequestConfig,
+} from 'axios';
+import type { Key } from 'chessground/types';
+import { analyzeApiUrl, lookupApiUrl, OEMBED_URL } from '../lib/apiClient';
+import { readPieces } from '../lib/fen';
+import { DEFAULT_FEN_MATCH_MODE, fenMatchKey, FEN_MATCH_MODES, type FenMatchMode } from '../lib/fenMatching';
+
+/**
+ * Offline stand-in for analyze-board, lookup-position and YouTube oEmbed.
+ *
+ * In the browser it is switched on with `VITE_USE_MOCK_API=true npm run dev`
+ * (see main.tsx); a small panel then picks the scenario. Tests call
+ * `installMockBackend(apiHttp)` and `setMockScenario()` directly.
+ */
+
+export type MockScenario =
+  | 'success'
+  | 'placement-only'
+  | 'impossible-position'
+  | 'invalid-fen'
+  | 'api-error'
+  | 'malformed-response'
+  | 'empty-lookup'
+  | 'slow'
+  | 'rate-limited'
+  | 'server-error'
+  | 'network-error';
+
+export const MOCK_SCENARIOS: Record<MockScenario, string> = {
+  success: 'Success (full FEN)',
+  'placement-only': 'Success (placement only)',
+  'impossible-position': 'Impossible position',
+  'invalid-fen': 'Malformed FEN',
+  'api-error': 'API error envelope',
+  'malformed-response': 'Malformed response body',
+  'empty-lookup': 'No videos found',
+  slow: 'Slow responses (4 s)',
+  'rate-limited': 'HTTP 429',
+  'server-error': 'HTTP 500',
+  'network-error': 'Network error',
+};
+
+const STORAGE_KEY = 'chess-atlas.mockScenario';
+const BASE_DELAY_MS = 300;
+const SLOW_DELAY_MS = 4000;
+
+const FENS: Partial<Record<MockScenario, string>> = {
+  success: 'r1bqkb1r/pppp1ppp/2n2n2/4p3/2B1P3/5N2/PPPP1PPP/RNBQK2R w KQkq - 4 4',
+  'placement-only': 'r1bq1rk1/ppp2ppp/2np1n2/2b1p3/2B1P3/2NP1N2/PPP2PPP/R1BQ1RK1',
+  'impossible-position': 'rnbqkbnP/pppppppp/8/8/8/8/PPPPPPP1/RNBQKBNK w KQkq e3 0 1',
+  'invalid-fen': 'rnbqkbnr/pppppppp/8/8/8/PPPPPPPP/RNBQKBNR',
+};
+
+// Not real uploads: the player will show YouTube's "unavailable" card, which is fine offline
+const MOCK_VIDEO_IDS = ['mockVideo01', 'mockVideo02', 'mockVideo03', 'mockVideo04', 'mockVideo05'];
+
+let currentScenario: MockScenario | null = null;
+
+export function getMockScenario(): MockScenario {
+  if (currentScenario) return currentScenario;
+  const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null;
+  return stored && stored in MOCK_SCENARIOS ? (stored as MockScenario) : 'success';
+}
+
+export function setMockScenario(scenario: MockScenario): void {
+  currentScenario = scenario;
+  if (typeof localStorage !== 'undefined') localStorage.setItem(STORAGE_KEY, scenario);
+}
+
+const hashString = (text: string): number => {
+  let hash = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+const delay = (ms: number, config: InternalAxiosRequestConfig): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const { signal } = config;
+    if (signal?.aborted) { reject(new CanceledError(undefined, undefined, config)); return; }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CanceledError(undefined, undefined, config));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener?.('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener?.('abort', onAbort, { once: true });
+  });
+
+/** Settle like a real adapter: statuses outside validateStatus reject with an AxiosError. */
+function respond(config: InternalAxiosRequestConfig, status: number, data: unknown, headers: Record<string, string> = {}): AxiosResponse {
+  const response: AxiosResponse = {
+    data,
+    status,
+    statusText: String(status),
+    headers: new AxiosHeaders(headers),
+    config,
+  };
+  const validate = config.validateStatus ?? (code => code >= 200 && code < 300);
+  if (!validate(status)) {
+    const code = status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST;
+    throw new AxiosError(`Request failed with status code ${status}`, code, config, null, response);
+  }
+  return response;
+}
+
+/** High confidence everywhere except one or two squares, so the overlay has something to show. */
+function mockSquarePredictions(fen: string): Record<string, unknown> {
+  const pieces = readPieces(fen);
+  const predictions: Record<string, unknown> = {};
+  for (const file of 'abcdefgh') {
+    for (let rank = 1; rank <= 8; rank++) {
+      const square = `${file}${rank}` as Key;
+      const piece = pieces.get(square);
+      const label = piece ? (piece.role === 'knight' ? 'n' : piece.role[0]) : 'empty';
+      const letter = piece && piece.color === 'white' ? label.toUpperCase() : label;
+      const uncertain = square === 'd4' || square === 'f6';
+      const confidence = uncertain ? 0.58 : 0.97;
+      predictions[square] = {
+        confidence,
+        top_k: [
+          { label: letter, probability: confidence },
+          { label: letter === 'empty' ? 'p' : 'empty', probability: Number((1 - confidence).toFixed(2)) },
+        ],
+      };
+    }
+  }
+  return predictions;
+}
+
+function analyzeBoardResponse(config: InternalAxiosRequestConfig, scenario: MockScenario): AxiosResponse {
+  if (scenario === 'api-error') {
+    return respond(config, 200, { status: 'error', message: 'No chessboard was found in the image.' });
+  }
+  if (scenario === 'malformed-response') {
+    return respond(config, 200, { status: 'success', data: { cropped_image: 42 } });
+  }
+  // Let the Batch page see its upload finish
+  config.onUploadProgress?.({ loaded: 1, total: 1, progress: 1, bytes: 1, lengthComputable: true });
+  const fen = FENS[scenario] ?? FENS.success!;
+  return respond(config, 200, {
+    status: 'success',
+    data: {
+      fen,
+      cropped_image: '/samples/sample1.png',
+      square_predictions: scenario === 'invalid-fen' ? undefined : mockSquarePredictions(fen),
+    },
+  });
+}
+
+/** A handful of hits per position, stable for a given FEN, with near-duplicates to exercise deduplication. */
+function lookupResponse(config: InternalAxiosRequestConfig, scenario: MockScenario): AxiosResponse {
+  if (scenario === 'api-error') return respond(config, 200, { status: 'error', message: 'Lookup failed.' });
+  if (scenario === 'malformed-response') return respond(config, 200, { status: 'success', data: 'oops' });
+  if (scenario === 'empty-lookup') return respond(config, 200, { status: 'success', data: [] });
+  const params = config.params as { fen?: string; match?: string } | undefined;
+  const match = params?.match && params.match in FEN_MATCH_MODES ? (params.match as FenMatchMode) : DEFAULT_FEN_MATCH_MODE;
+  // Hash only the fields the mode compares, so equivalent positions get the same videos like the real index
+  const seed = hashString(fenMatchKey(String(params?.fen ?? ''), match));
+  const count = 2 + (seed % 6);
+  const data = Array.from({ length: count }, (_, i) => {
+    const video = MOCK_VIDEO_IDS[(seed + i) % MOCK_VIDEO_IDS.length];
+    const timestamp = 30 + ((seed >>> (i % 16)) % 1800);
+    return { video_id: video, timestamp_seconds: timestamp, orientation: (seed + i) % 3 === 0 ? 'black' : 'white' };
+  });
+  data.push({ ...data[0], timestamp_seconds: data[0].timestamp_seconds + 2 });
+  return respond(config, 200, { status: 'success', data });
+}
+
+function oembedResponse(config: InternalAxiosRequestConfig): AxiosResponse {
+  const url = String((config.params as { url?: string } | undefined)?.url ?? '');
+  const videoId = new URL(url, 'https://www.youtube.com').searchParams.get('v') ?? 'unknown';
+  return respond(config, 200, { title: `Mock lesson ${videoId}`, author_name: 'Chess Atlas (mock)' });
+}
+
+const mockAdapter: AxiosAdapter = async config => {
+  const scenario = getMockScenario();
+  await delay(scenario === 'slow' ? SLOW_DELAY_MS : BASE_DELAY_MS, config);
+  if (scenario === 'network-error') throw new AxiosError('Network Error', AxiosError.ERR_NETWORK, config);
+  if (scenario === 'rate-limited') return respond(config, 429, { message: 'Slow down' }, { 'retry-after': '1' });
+  if (scenario === 'server-error') return respond(config, 500, { message: 'Internal Server Error' });
+
+  // Match the endpoints apiClient is configured with, so Settings overrides still hit the mock
+  const url = config.url ?? '';
+  if (url === analyzeApiUrl()) return analyzeBoardResponse(config, scenario);
+  if (url === lookupApiUrl()) return lookupResponse(config, scenario);
+  if (url === OEMBED_URL) return oembedResponse(config);
+  return respond(config, 404, { status: 'error', message: `No mock route for ${url}` });
+};
+
+/** Route every request on `http` to the mock; returns a function that restores the real adapter. */
+export function installMockBackend(http: AxiosInstance): () => void {
+  const previous = http.defaults.adapter;
+  http.defaults.adapter = mockAdapter;
+  return () => { http.defaults.adapter = previous; };
+}
@@ -1,127 +1,253 @@
-import { useState, useCallback, useEffect, type MouseEvent } from 'react';
+import { useState, useCallback, useEffect, useRef, type DragEvent, type MouseEvent } from 'react';
+import { Link, useLocation, useNavigate, useParams } from 'react-router-dom';
 import { useDropzone, type FileRejection } from 'react-dropzone';
-import axios from 'axios';
-import { Chess } from 'chess.js';
 import Chessground from '@react-chess/chessground';
-
-import 'chessground/assets/chessground.base.css';
-import 'chessground/assets/chessground.brown.css';
-import 'chessground/assets/chessground.cburnett.css';
-
-type Orientation = 'white' | 'black';
-
-interface ApiData {
-  fen: string;
-  cropped_image: string;
-}
-
-interface ApiResponse {
-  status: 'success' | 'error';
-  data: ApiData;
-  message?: string;
-}
+import type { Key } from 'chessground/types';
+import BoardDescription from '../components/BoardDescription';
+import CameraCapture from '../components/CameraCapture';
+import ConfidenceOverlay from '../components/ConfidenceOverlay';
+import CornerCropper from '../components/CornerCropper';
+import EnginePanel from '../components/EnginePanel';
+import PositionDiagnostics from '../components/PositionDiagnostics';
+import SparePiecePalette, { SPARE_PIECE_MIME, type EditorTool } from '../components/SparePiecePalette';
+import { useSettings } from '../hooks/useSettings';
+import {
+  ACCEPTED_IMAGE_TYPES,
+  MAX_SOURCE_SIZE_BYTES,
+  completeFen,
+  formatBytes,
+  getDropRejectionMessage,
+  getFileValidationError,
+  type Orientation,
+} from '../lib/analyzeBoard';
+import { squareAtPoint } from '../lib/boardGeometry';
+import {
+  LOW_CONFIDENCE_THRESHOLD,
+  countLowConfidence,
+  parseSquarePredictions,
+  type SquarePredictions,
+} from '../lib/confidence';
+import { copyText } from '../lib/clipboard';
+import { getAnalysis, saveAnalysis, updateAnalysis } from '../lib/historyStore';
+import { analyzeBoard, normalizeApiError } from '../lib/apiClient';
+import { prepareImage, type PreparedImage } from '../lib/image';
+import { DEFAULT_CROP_QUAD, isConvexQuad, warpToSquare, type Quad } from '../lib/perspective';
+import { buildExplorerPath, buildPositionPath, decodeFenFromPath, explorerFenError } from '../lib/positionUrl';
+import {
+  movePiece,
+  pieceFromLetter,
+  setPiece,
+  toggleCastlingRight,
+  type CastlingRight,
+  type PieceLetter,
+} from '../lib/fen';
+import { lookupOpening } from '../lib/openings';
+import { useShortcuts } from '../lib/shortcuts';
+import { diagnosePosition, isWellFormedFen } from '../lib/positionDiagnostics';
+import {
+  enPassantCandidates,
+  fenFieldValue,
+  inferFenFields,
+  type FenInference,
+  type InferredField,
+} from '../lib/fenInference';
 
 interface UploadedFile extends File {
   preview: string;
 }
 
-const API_URL = import.meta.env.VITE_API_URL ?? 'https://api.chess-atlas.com/api/v1/analyze-board';
-const MAX_UPLOAD_SIZE_BYTES = 12 * 1024 * 1024;
 const SAMPLE_IMAGES = [
   '/samples/sample1.png',
   '/samples/sample2.png',
   '/samples/sample3.png',
 ];
-const ACCEPTED_IMAGE_TYPES = {
-  'image/jpeg': ['.jpeg', '.jpg'],
-  'image/png': ['.png'],
-};
 const EMPTY_BOARD_FEN = '8/8/8/8/8/8/8/8 w - - 0 1';
+const CLIPBOARD_ERROR = 'Could not copy to the clipboard. Your browser may be blocking access.';
 
-const toApiOrientation = (value: Orientation): 'White' | 'Black' =>
-  value === 'white' ? 'White' : 'Black';
-
-const formatBytes = (bytes: number): string => {
-  const mb = bytes / (1024 * 1024);
-  return `${mb.toFixed(1)} MB`;
-};
-
-const getFileValidationError = (file: File): string | null => {
-  const fileType = file.type.toLowerCase();
-  if (!Object.keys(ACCEPTED_IMAGE_TYPES).includes(fileType)) {
-    return 'Unsupported image format. Please upload a JPG or PNG image.';
-  }
-  if (file.size > MAX_UPLOAD_SIZE_BYTES) {
-    return `Image is too large (${formatBytes(file.size)}). Please use a file smaller than ${formatBytes(MAX_UPLOAD_SIZE_BYTES)}.`;
-  }
-  return null;
-};
-
-const getApiErrorMessage = (err: unknown): string => {
-  if (!axios.isAxiosError(err)) return 'Upload failed. Please try again.';
-  if (err.response) {
-    const status = err.response.status;
-    const responseData = err.response.data as { message?: string } | undefined;
-    const serverMessage = responseData?.message;
-    if (status === 400) return serverMessage || 'The image could not be processed. Try another photo with the full board visible.';
-    if (status === 413) return 'The uploaded image is too large for the server. Try resizing the photo and upload again.';
-    if (status === 415) return 'Unsupported image format. Please upload a JPG or PNG image.';
-    if (status === 429) return 'Too many requests right now. Please wait a moment and try again.';
-    if (status >= 500) return 'The analysis server returned an error. Please try again in a minute.';
-    return serverMessage || `Upload failed (HTTP ${status}).`;
-  }
-  if (err.code === 'ECONNABORTED') return 'Upload timed out. Please try a smaller image or check your connection.';
-  if (err.code === 'ERR_NETWORK') {
-    const origin = typeof window !== 'undefined' ? window.location.origin : 'this site';
-    return `Network error contacting the API from ${origin}. If you are testing from mobile on local dev, this is often a CORS/origin issue.`;
-  }
-  return err.message || 'Upload failed. Please try again.';
-};
+// Saving is a side effect of analysing, so a failure is a note rather than an error
+const HISTORY_SAVE_ERROR = 'This analysis could not be saved to your history. Your browser may be blocking storage.';
 
 function AnalyzerPage() {
+  const location = useLocation();
+  const navigate = useNavigate();
+  const restoreEntryId = (location.state as { historyEntryId?: string } | null)?.historyEntryId;
+  // Set on /position/<fen> deep links
+  const { '*': positionPath } = useParams();
+  const { settings } = useSettings();
+  const linkedOrientation: Orientation = new URLSearchParams(location.search).get('orientation') === 'black' ? 'black' : 'white';
   const [uploadedImage, setUploadedImage] = useState<UploadedFile | null>(null);
   const [croppedImage, setCroppedImage] = useState<string | null>(null);
   const [fen, setFen] = useState<string>('');
-  const [analysisOrientation, setAnalysisOrientation] = useState<Orientation>('white');
-  const [boardOrientation, setBoardOrientation] = useState<Orientation>('white');
+  const [analysisOrientation, setAnalysisOrientation] = useState<Orientation>(settings.defaultOrientation);
+  const [boardOrientation, setBoardOrientation] = useState<Orientation>(settings.defaultOrientation);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string>('');
-
-  const handleAnalyze = useCallback(async (imageFile: File, requestedOrientation: Orientation) => {
+  const [isEditing, setIsEditing] = useState<boolean>(false);
+  const [editorTool, setEditorTool] = useState<EditorTool | null>(null);
+  // FENs before/after each manual correction, newest last
+  const [undoStack, setUndoStack] = useState<string[]>([]);
+  const [redoStack, setRedoStack] = useState<string[]>([]);
+  const [squarePredictions, setSquarePredictions] = useState<SquarePredictions | null>(null);
+  const [showConfidence, setShowConfidence] = useState<boolean>(true);
+  const [hoveredSquare, setHoveredSquare] = useState<Key | null>(null);
+  const [focusedProblem, setFocusedProblem] = useState<number | null>(null);
+  // What was guessed for a placement-only FEN, so the switches can show inferred vs. user-set values
+  const [inference, setInference] = useState<FenInference | null>(null);
+  const [isCameraOpen, setIsCameraOpen] = useState<boolean>(false);
+  // Downscaled/re-encoded version of the upload, for the before/after size note
+  const [preparedImage, setPreparedImage] = useState<PreparedImage | null>(null);
+  // Manual board corners; keyed by image so a new upload starts from the detector crop again
+  const [manualCrop, setManualCrop] = useState<{ image: File; corners: Quad } | null>(null);
+  const [cropDraft, setCropDraft] = useState<{ image: File; corners: Quad } | null>(null);
+  // History record for the current upload; re-analysing the same image updates it in place
+  const [historyId, setHistoryId] = useState<string | null>(null);
+  const [historyError, setHistoryError] = useState<string>('');
+  const historyEntryRef = useRef<{ id: string; image: File } | null>(null);
+  // The analysis in flight; a newer one aborts it so a slow old response can't overwrite the result
+  const analyzeAbortRef = useRef<AbortController | null>(null);
+
+  const handleAnalyze = useCallback(async (imageFile: File, requestedOrientation: Orientation, corners: Quad | null = null) => {
+    analyzeAbortRef.current?.abort();
+    const controller = new AbortController();
+    analyzeAbortRef.current = controller;
+    const { signal } = controller;
     setIsLoading(true);
     setError('');
+    setHistoryError('');
     setCroppedImage(null);
     setFen('');
-
-    const formData = new FormData();
-    formData.append('image', imageFile);
-    formData.append('orientation', toApiOrientation(requestedOrientation));
+    setUndoStack([]);
+    setRedoStack([]);
+    setEditorTool(null);
+    setSquarePredictions(null);
+    setInference(null);
+    setPreparedImage(null);
 
     try {
-      const response = await axios.post<ApiResponse>(API_URL, formData, { timeout: 60000 });
-
-      if (response.data && response.data.status === 'success') {
-        const { fen: receivedFen, cropped_image: croppedImageUrl } = response.data.data;
-        let finalFen = receivedFen;
-        if (!finalFen.includes(' ')) {
-          finalFen += ' w KQkq - 0 1';
-        }
-        try {
-          new Chess(finalFen);
-          setFen(finalFen);
-        } catch {
-          setError('API returned an invalid FEN string.');
-        }
-        setCroppedImage(croppedImageUrl);
+      const source = corners ? await warpToSquare(imageFile, corners) : imageFile;
+      const prepared = await prepareImage(source, { signal });
+      if (signal.aborted) return;
+      setPreparedImage(prepared);
+      const {
+        fen: receivedFen,
+        cropped_image: croppedImageUrl,
+        square_predictions: rawPredictions,
+      } = await analyzeBoard(prepared.file, requestedOrientation, { signal });
+      if (signal.aborted) return;
+
+      // Anything short of six fields is completed; the reasons are only shown when the whole tail was guessed
+      const placementOnly = !receivedFen.trim().includes(' ');
+      const inferred = placementOnly ? inferFenFields(receivedFen.trim(), settings.defaultSideToMove) : null;
+      const finalFen = completeFen(receivedFen, settings.defaultSideToMove);
+      setInference(inferred);
+      // Impossible positions are still shown so the diagnostics can point at what to fix
+      if (isWellFormedFen(finalFen)) {
+        setFen(finalFen);
+      } else {
+        setError('API returned a malformed FEN string.');
+      }
+      setCroppedImage(croppedImageUrl);
+      setSquarePredictions(parseSquarePredictions(rawPredictions));
+
+      const existing = historyEntryRef.current;
+      if (existing && existing.image === imageFile) {
+        void updateAnalysis(existing.id, {
+          fen: finalFen,
+          croppedImage: croppedImageUrl,
+          analysisOrientation: requestedOrientation,
+          squarePredictions: rawPredictions,
+        }).catch(() => setHistoryError(HISTORY_SAVE_ERROR));
       } else {
-        setError(response.data.message || 'An unknown error occurred.');
+        historyEntryRef.current = null;
+        setHistoryId(null);
+        saveAnalysis({
+          image: imageFile,
+          fen: finalFen,
+          croppedImage: croppedImageUrl,
+          analysisOrientation: requestedOrientation,
+          boardOrientation: requestedOrientation,
+          squarePredictions: rawPredictions,
+        }).then(id => {
+          historyEntryRef.current = { id, image: imageFile };
+          setHistoryId(id);
+        }).catch(() => setHistoryError(HISTORY_SAVE_ERROR));
       }
     } catch (err) {
-      setError(getApiErrorMessage(err));
+      const failure = normalizeApiError(err);
+      if (!failure.cancelled && !signal.aborted) setError(failure.message);
     } finally {
+      if (analyzeAbortRef.current === controller) {
+        analyzeAbortRef.current = null;
+        setIsLoading(false);
+      }
+    }
+  }, [settings.defaultSideToMove]);
+
+  useEffect(() => () => analyzeAbortRef.current?.abort(), []);
+
+  // Keep the saved record in step with manual FEN tweaks and board flips
+  useEffect(() => {
+    if (!historyId || !fen) return;
+    void updateAnalysis(historyId, { fen, boardOrientation }).catch(() => setHistoryError(HISTORY_SAVE_ERROR));
+  }, [historyId, fen, boardOrientation]);
+
+  // Re-open an entry from the History page
+  useEffect(() => {
+    if (!restoreEntryId) return;
+    let cancelled = false;
+    getAnalysis(restoreEntryId).then(record => {
+      if (cancelled) return;
+      if (!record) { setError('That history entry no longer exists.'); return; }
+      analyzeAbortRef.current?.abort();
+      analyzeAbortRef.current = null;
       setIsLoading(false);
+      const file = new File([record.image], record.imageName, { type: record.image.type });
+      const fileWithPreview = Object.assign(file, { preview: URL.createObjectURL(file) });
+      historyEntryRef.current = { id: record.id, image: fileWithPreview };
+      setHistoryId(record.id);
+      setUploadedImage(fileWithPreview);
+      setCroppedImage(record.croppedImage);
+      setFen(record.fen);
+      setAnalysisOrientation(record.analysisOrientation);
+      setBoardOrientation(record.boardOrientation);
+      setSquarePredictions(parseSquarePredictions(record.squarePredictions));
+      setInference(null);
+      setPreparedImage(null);
+      setUndoStack([]);
+      setRedoStack([]);
+      setError('');
+    }).catch(() => {
+      setError('Could not load that history entry.');
+    });
+    return () => { cancelled = true; };
+  }, [restoreEntryId]);
+
+  // Open a shared /position/<fen> link: show the position without an image
+  useEffect(() => {
+    if (!positionPath) return;
+    // Hand-written links may stop after the placement; fill in the rest as for an analyzed photo
+    const linkedFen = completeFen(decodeFenFromPath(positionPath), settings.defaultSideToMove);
+    if (!isWellFormedFen(linkedFen)) {
+      setError('The link contains an invalid FEN string.');
+      return;
     }
-  }, []);
+    analyzeAbortRef.current?.abort();
+    analyzeAbortRef.current = null;
+    setIsLoading(false);
+    historyEntryRef.current = null;
+    setHistoryId(null);
+    setUploadedImage(null);
+    setCroppedImage(null);
+    setSquarePredictions(null);
+    setInference(null);
+    setPreparedImage(null);
+    setUndoStack([]);
+    setRedoStack([]);
+    setError('');
+    setFen(linkedFen);
+    setAnalysisOrientation(linkedOrientation);
+    setBoardOrientation(linkedOrientation);
+  }, [positionPath, linkedOrientation, settings.defaultSideToMove]);
 
   const onDrop = useCallback((acceptedFiles: File[]) => {
     if (acceptedFiles.length > 0) {
@@ -134,19 +260,26 @@ function AnalyzerPage() {
     }
   }, [analysisOrientation, handleAnalyze]);
 
+  const handleCameraCapture = useCallback((file: File) => {
+    setIsCameraOpen(false);
+    onDrop([file]);
+  }, [onDrop]);
+
+  // Permission denied or no camera: close the preview so the dropzone is usable again
+  const handleCameraUnavailable = useCallback((message: string) => {
+    setIsCameraOpen(false);
+    setError(message);
+  }, []);
+
   const onDropRejected = useCallback((fileRejections: FileRejection[]) => {
-    const firstError = fileRejections[0]?.errors[0];
-    if (!firstError) { setError('Could not upload that file.'); return; }
-    if (firstError.code === 'file-invalid-type') { setError('Unsupported image format. Please upload a JPG or PNG image.'); return; }
-    if (firstError.code === 'file-too-large') { setError(`Image is too large. Please use a file smaller than ${formatBytes(MAX_UPLOAD_SIZE_BYTES)}.`); return; }
-    setError(firstError.message);
+    setError(getDropRejectionMessage(fileRejections[0]));
   }, []);
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
     onDropRejected,
     accept: ACCEPTED_IMAGE_TYPES,
-    maxSize: MAX_UPLOAD_SIZE_BYTES,
+    maxSize: MAX_SOURCE_SIZE_BYTES,
     multiple: false,
   });
 
@@ -174,13 +307,24 @@ function AnalyzerPage() {
   }, [analysisOrientation, handleAnalyze]);
 
   const [copied, setCopied] = useState<boolean>(false);
-  const handleCopy = () => {
+  const handleCopy = async () => {
     if (!fen) return;
-    navigator.clipboard.writeText(fen);
+    if (!await copyText(fen)) { setError(CLIPBOARD_ERROR); return; }
     setCopied(true);
     setTimeout(() => setCopied(false), 2000);
   };
 
+  const [linkCopied, setLinkCopied] = useState<boolean>(false);
+  const handleCopyLink = async () => {
+    if (!fen) return;
+    if (!await copyText(`${window.location.origin}${buildPositionPath(fen, boardOrientation)}`)) {
+      setError(CLIPBOARD_ERROR);
+      return;
+    }
+    setLinkCopied(true);
+    setTimeout(() => setLinkCopied(false), 2000);
+  };
+
   const handleSampleClick = useCallback(async (samplePath: string) => {
     try {
       const response = await fetch(samplePath);
@@ -197,9 +341,34 @@ function AnalyzerPage() {
     }
   }, [analysisOrientation, handleAnalyze]);
 
+  const appliedCorners = manualCrop && manualCrop.image === uploadedImage ? manualCrop.corners : null;
+  const isCropping = !!uploadedImage && cropDraft?.image === uploadedImage;
+
   const requestAnalysisForOrientation = (nextOrientation: Orientation) => {
     if (!uploadedImage) return;
-    void handleAnalyze(uploadedImage, nextOrientation);
+    void handleAnalyze(uploadedImage, nextOrientation, appliedCorners);
+  };
+
+  const startCrop = () => {
+    if (!uploadedImage) return;
+    setCropDraft({ image: uploadedImage, corners: appliedCorners ?? DEFAULT_CROP_QUAD });
+  };
+
+  const applyCrop = () => {
+    if (!uploadedImage || !cropDraft) return;
+    if (!isConvexQuad(cropDraft.corners)) {
+      setError('The corners cross over each other. Drag each handle to its own corner of the board.');
+      return;
+    }
+    setManualCrop(cropDraft);
+    setCropDraft(null);
+    void handleAnalyze(uploadedImage, analysisOrientation, cropDraft.corners);
+  };
+
+  const clearManualCrop = () => {
+    if (!uploadedImage) return;
+    setManualCrop(null);
+    void handleAnalyze(uploadedImage, analysisOrientation);
   };
 
   const handleOrientationSelection = (nextOrientation: Orientation) => {
@@ -211,29 +380,100 @@ function AnalyzerPage() {
 
   const toggleOrientation = () => setBoardOrientation(prev => prev === 'white' ? 'black' : 'white');
 
+  /** Every manual change to the detected FEN goes through here so it can be undone. */
+  const applyFenEdit = (nextFen: string) => {
+    if (!fen || nextFen === fen) return;
+    setUndoStack(stack => [...stack, fen]);
+    setRedoStack([]);
+    setFen(nextFen);
+  };
+
+  const handleUndo = () => {
+    const previous = undoStack[undoStack.length - 1];
+    if (previous === undefined) return;
+    setUndoStack(stack => stack.slice(0, -1));
+    setRedoStack(stack => [...stack, fen]);
+    setFen(previous);
+  };
+
+  const handleRedo = () => {
+    const next = redoStack[redoStack.length - 1];
+    if (next === undefined) return;
+    setRedoStack(stack => stack.slice(0, -1));
+    setUndoStack(stack => [...stack, fen]);
+    setFen(next);
+  };
+
+  const toggleEditing = () => {
+    setIsEditing(prev => !prev);
+    setEditorTool(null);
+  };
+
+  const handleEditorMove = (orig: Key, dest: Key) => {
+    applyFenEdit(movePiece(fen, orig, dest));
+  };
+
+  const handleEditorSelect = (key: Key) => {
+    if (!editorTool) return;
+    applyFenEdit(setPiece(fen, key, editorTool === 'erase' ? null : pieceFromLetter(editorTool)));
+  };
+
+  const handleBoardMouseMove = (event: MouseEvent<HTMLDivElement>) => {
+    if (!squarePredictions) return;
+    const key = squareAtPoint(event.currentTarget.getBoundingClientRect(), event.clientX, event.clientY, boardOrientation);
+    if (key !== hoveredSquare) setHoveredSquare(key);
+  };
+
+  const handleBoardDragOver = (event: DragEvent<HTMLDivElement>) => {
+    if (isEditing && event.dataTransfer.types.includes(SPARE_PIECE_MIME)) event.preventDefault();
+  };
+
+  const handleBoardDrop = (event: DragEvent<HTMLDivElement>) => {
+    const letter = event.dataTransfer.getData(SPARE_PIECE_MIME) as PieceLetter;
+    if (!isEditing || !letter) return;
+    event.preventDefault();
+    const key = squareAtPoint(event.currentTarget.getBoundingClientRect(), event.clientX, event.clientY, boardOrientation);
+    if (key) applyFenEdit(setPiece(fen, key, pieceFromLetter(letter)));
+  };
+
   const sideToMove = fen ? (fen.split(' ')[1] as 'w' | 'b') : null;
 
   const handleSideToMoveChange = (side: 'w' | 'b') => {
-    setFen(prev => {
-      if (!prev) return prev;
-      const parts = prev.split(' ');
-      parts[1] = side;
-      return parts.join(' ');
-    });
+    if (!fen) return;
+    const parts = fen.split(' ');
+    parts[1] = side;
+    // An en-passant target only makes sense for the side it was set for
+    parts[3] = '-';
+    applyFenEdit(parts.join(' '));
   };
 
   const castlingRights = fen ? (fen.split(' ')[2] ?? '-') : null;
 
-  const handleCastlingToggle = (right: 'K' | 'Q' | 'k' | 'q') => {
-    setFen(prev => {
-      if (!prev) return prev;
-      const parts = prev.split(' ');
-      const current = parts[2] ?? '-';
-      const active = current === '-' ? '' : current;
-      const next = active.includes(right) ? active.replace(right, '') : active + right;
-      parts[2] = (['K', 'Q', 'k', 'q'] as const).filter(r => next.includes(r)).join('') || '-';
-      return parts.join(' ');
-    });
+  const handleCastlingToggle = (right: CastlingRight) => {
+    if (!fen) return;
+    applyFenEdit(toggleCastlingRight(fen, right));
+  };
+
+  const enPassantSquare = fen ? (fen.split(' ')[3] ?? '-') : '-';
+  const enPassantOptions = fen ? enPassantCandidates(fen) : [];
+
+  const handleEnPassantChange = (square: string) => {
+    if (!fen) return;
+    const parts = fen.split(' ');
+    parts[3] = square;
+    applyFenEdit(parts.join(' '));
+  };
+
+  /** "Inferred" while a field still holds the guessed value, "Set" once the user has changed it. */
+  const renderFieldSource = (field: InferredField) => {
+    if (!inference || !fen) return null;
+    const isInferred = fenFieldValue(fen, field) === inference[field];
+    return (
+      <span className={`fen-source ${isInferred ? 'is-inferred' : 'is-user'}`}
+        title={isInferred ? inference.reasons[field] : 'Set by you'}>
+        {isInferred ? 'Inferred' : 'Set'}
+      </span>
+    );
   };
 
   const handleAnalysisLinkClick = (event: MouseEvent<HTMLAnchorElement>) => {
@@ -243,22 +483,77 @@ function AnalyzerPage() {
   const encodedFen = fen ? fen.replace(/ /g, '%20') : '';
   const lichessUrl = encodedFen ? `https://lichess.org/analysis/${encodedFen}` : 'https://lichess.org/analysis';
   const chesscomUrl = encodedFen ? `https://www.chess.com/analysis?fen=${encodedFen}` : 'https://www.chess.com/analysis';
+  // The Explorer needs a legal position to generate moves from, not just a well-formed FEN
+  const explorerFenProblem = fen ? explorerFenError(fen) : 'Analyze a board first';
+  const explorerPath = explorerFenProblem ? '/explorer' : buildExplorerPath(fen, boardOrientation);
+
+  useShortcuts([
+    { id: 'analyzer-flip', group: 'Analyzer', label: 'Flip board', key: 'f', run: toggleOrientation },
+    { id: 'analyzer-copy-fen', group: 'Analyzer', label: 'Copy FEN', key: 'c', disabled: !fen, run: () => void handleCopy() },
+    { id: 'analyzer-side-to-move', group: 'Analyzer', label: 'Toggle side to move', key: 't', disabled: !fen,
+      run: () => handleSideToMoveChange(sideToMove === 'w' ? 'b' : 'w') },
+    { id: 'analyzer-copy-link', group: 'Analyzer', label: 'Copy link to this position', disabled: !fen, run: () => void handleCopyLink() },
+    { id: 'analyzer-as-white', group: 'Analyzer', label: 'Photo taken from White\'s side',
+      disabled: analysisOrientation === 'white', run: () => handleOrientationSelection('white') },
+    { id: 'analyzer-as-black', group: 'Analyzer', label: 'Photo taken from Black\'s side',
+      disabled: analysisOrientation === 'black', run: () => handleOrientationSelection('black') },
+    { id: 'analyzer-edit', group: 'Analyzer', label: isEditing ? 'Stop editing the board' : 'Edit board',
+      disabled: !fen, run: toggleEditing },
+    { id: 'analyzer-undo', group: 'Analyzer', label: 'Undo edit', disabled: undoStack.length === 0, run: handleUndo },
+    { id: 'analyzer-redo', group: 'Analyzer', label: 'Redo edit', disabled: redoStack.length === 0, run: handleRedo },
+    { id: 'analyzer-explore', group: 'Analyzer', label: 'Explore this position',
+      disabled: !!explorerFenProblem, run: () => navigate(explorerPath) },
+  ]);
   const boardFen = fen || EMPTY_BOARD_FEN;
+  const canEdit = isEditing && !!fen;
+  const lowConfidenceCount = squarePredictions ? countLowConfidence(squarePredictions) : 0;
+  const problems = fen ? diagnosePosition(fen) : [];
+  const opening = fen ? lookupOpening(fen) : null;
+  const highlightedProblems = focusedProblem !== null && problems[focusedProblem] ? [problems[focusedProblem]] : problems;
+  const problemSquares = [...new Set(highlightedProblems.flatMap(problem => problem.squares))];
+  const drawable = { autoShapes: problemSquares.map(square => ({ orig: square, brush: 'red' })) };
+
+  const boardConfig = canEdit
+    ? {
+      fen: boardFen,
+      orientation: boardOrientation,
+      viewOnly: false,
+      autoCastle: false,
+      // With a palette tool armed, clicks place/clear pieces instead of picking them up
+      movable: { free: true, color: editorTool ? undefined : ('both' as const), showDests: false, events: { after: handleEditorMove } },
+      premovable: { enabled: false },
+      events: { select: handleEditorSelect },
+      drawable,
+    }
+    : { fen: boardFen, orientation: boardOrientation, viewOnly: true, drawable };
 
   return (
     <div className="container">
       <div className="top-section">
-        <div {...getRootProps()} className="dropzone">
-          <input {...getInputProps()} />
-          {isDragActive ? (
-            <p>Drop the image here ...</p>
-          ) : (
-            <p>Drag 'n' drop an image here, press Ctrl+V to paste, or click to select</p>
-          )}
-        </div>
+        {isCameraOpen ? (
+          <CameraCapture
+            onCapture={handleCameraCapture}
+            onClose={() => setIsCameraOpen(false)}
+            onUnavailable={handleCameraUnavailable}
+          />
+        ) : (
+          <>
+            <div {...getRootProps()} className="dropzone">
+              <input {...getInputProps()} />
+              {isDragActive ? (
+                <p>Drop the image here ...</p>
+              ) : (
+                <p>Drag 'n' drop an image here, press Ctrl+V to paste, or click to select</p>
+              )}
+            </div>
+            <button type="button" className="button camera-open-button" disabled={isLoading}
+              onClick={() => { setError(''); setIsCameraOpen(true); }}>Use camera</button>
+          </>
+        )}
 
         {isLoading && <div className="loading">Analyzing...</div>}
         {error && <div className="error">{error}</div>}
+        {historyError && <div className="loading">{historyError}</div>}
 
         <div className="sample-thumbnails">
           {SAMPLE_IMAGES.map((src, i) => (
@@ -280,17 +575,56 @@ function AnalyzerPage() {
         <div className="column">
           <h3>Your Upload</h3>
           <div className="preview-frame">
+            {uploadedImage && cropDraft && isCropping && (
+              <CornerCropper
+                image={uploadedImage}
+                corners={cropDraft.corners}
+                onChange={corners => setCropDraft({ image: uploadedImage, corners })}
+              />
+            )}
             {uploadedImage ? (
+              // Stays mounted while cropping: its object URL is revoked once loaded
               <img
                 src={uploadedImage.preview}
                 alt="Uploaded chessboard"
-                className="image-preview"
+                className={`image-preview${isCropping ? ' is-hidden' : ''}`}
                 onLoad={() => URL.revokeObjectURL(uploadedImage.preview)}
               />
             ) : (
               <p className="placeholder">Waiting for image...</p>
             )}
           </div>
+          {uploadedImage && (
+            <div className="crop-controls">
+              {isCropping ? (
+                <>
+                  <span className="crop-hint">Drag the handles onto the board's four corners.</span>
+                  <button type="button" className="button" onClick={applyCrop} disabled={isLoading}>Analyze crop</button>
+                  <button type="button" className="switch-button" onClick={() => setCropDraft(null)}>Cancel</button>
+                </>
+              ) : (
+                <>
+                  <button type="button" className="switch-button" onClick={startCrop} disabled={isLoading}>
+                    {appliedCorners ? 'Adjust corners' : 'Crop manually'}
+                  </button>
+                  {appliedCorners && (
+                    <button type="button" className="switch-button" onClick={clearManualCrop} disabled={isLoading}>
+                      Use detected crop
+                    </button>
+                  )}
+                </>
+              )}
+            </div>
+          )}
+          {preparedImage && (
+            <p className="upload-size-note">
+              {preparedImage.file.size === preparedImage.originalSize
+                ? `Uploaded as is (${formatBytes(preparedImage.originalSize)})`
+                : `${formatBytes(preparedImage.originalSize)} → ${formatBytes(preparedImage.file.size)}`}
+              {(preparedImage.width !== preparedImage.originalWidth) &&
+                ` · ${preparedImage.originalWidth}×${preparedImage.originalHeight} → ${preparedImage.width}×${preparedImage.height}`}
+            </p>
+          )}
         </div>
 
         <div className="column">
@@ -323,12 +657,53 @@ function AnalyzerPage() {
         <div className="column">
           <h3>Detected Position</h3>
           <div className="board-column-content">
-            <div className="board-wrapper">
-              <Chessground config={{ fen: boardFen, orientation: boardOrientation, viewOnly: true }} />
+            <div
+              className={`board-wrapper${canEdit ? ' is-editing' : ''}`}
+              onDragOver={handleBoardDragOver}
+              onDrop={handleBoardDrop}
+              onMouseMove={handleBoardMouseMove}
+              onMouseLeave={() => setHoveredSquare(null)}
+            >
+              <Chessground config={boardConfig} />
+              {squarePredictions && showConfidence && fen && (
+                <ConfidenceOverlay
+                  predictions={squarePredictions}
+                  orientation={boardOrientation}
+                  hoveredSquare={hoveredSquare}
+                />
+              )}
+            </div>
+            <BoardDescription fen={fen} label="Detected position" />
+            {squarePredictions && fen && (
+              <div className="confidence-summary">
+                <span className={lowConfidenceCount > 0 ? 'confidence-summary-warning' : ''}>
+                  {lowConfidenceCount > 0
+                    ? `${lowConfidenceCount} square${lowConfidenceCount !== 1 ? 's' : ''} below ${Math.round(LOW_CONFIDENCE_THRESHOLD * 100)}% confidence, check by eye`
+                    : 'All squares detected with high confidence'}
+                </span>
+                <button type="button" className={`switch-button ${showConfidence ? 'is-active' : ''}`}
+                  onClick={() => setShowConfidence(prev => !prev)} aria-pressed={showConfidence}>Confidence</button>
+              </div>
+            )}
+            <PositionDiagnostics problems={problems} focusedIndex={focusedProblem} onFocus={setFocusedProblem} />
+            <div className="board-editor-controls">
+              <button type="button" className={`switch-button ${isEditing ? 'is-active' : ''}`}
+                onClick={toggleEditing} disabled={!fen} aria-pressed={isEditing}>Edit board</button>
+              <button type="button" className="switch-button" onClick={handleUndo}
+                disabled={undoStack.length === 0} title="Undo last edit">Undo</button>
+              <button type="button" className="switch-button" onClick={handleRedo}
+                disabled={redoStack.length === 0} title="Redo edit">Redo</button>
             </div>
+            {canEdit && <SparePiecePalette activeTool={editorTool} onToolChange={setEditorTool} />}
+            {opening && (
+              <div className="opening-label">
+                <span className="opening-eco">{opening.eco}</span>
+                <span className="opening-name">{opening.name}</span>
+              </div>
+            )}
             <div className="fen-container">
               <input type="text" readOnly value={fen} placeholder="FEN will appear here after analysis" className="fen-input" />
-              <button onClick={handleCopy} className="icon-button" title="Copy FEN" disabled={!fen} type="button">
+              <button onClick={() => void handleCopy()} className="icon-button" title="Copy FEN" disabled={!fen} type="button">
                 {copied ? (
                   <svg viewBox="0 0 24 24" fill="none" stroke="green" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
                     <polyline points="20 6 9 17 4 12"></polyline>
@@ -340,6 +715,18 @@ function AnalyzerPage() {
                   </svg>
                 )}
               </button>
+              <button onClick={() => void handleCopyLink()} className="icon-button" title="Copy link to this position" disabled={!fen} type="button">
+                {linkCopied ? (
+                  <svg viewBox="0 0 24 24" fill="none" stroke="green" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                    <polyline points="20 6 9 17 4 12"></polyline>
+                  </svg>
+                ) : (
+                  <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                    <path d="M10 13a5 5 0 0 0 7.54.54l3-3a5 5 0 0 0-7.07-7.07l-1.72 1.71"></path>
+                    <path d="M14 11a5 5 0 0 0-7.54-.54l-3 3a5 5 0 0 0 7.07 7.07l1.71-1.71"></path>
+                  </svg>
+                )}
+              </button>
               <button onClick={toggleOrientation} className="button" type="button">Flip Board</button>
             </div>
             <div className="analysis-buttons">
@@ -349,9 +736,15 @@ function AnalyzerPage() {
               <a href={chesscomUrl} target="_blank" rel="noopener noreferrer"
                 className={`link-button chesscom ${!fen ? 'is-disabled' : ''}`}
                 onClick={handleAnalysisLinkClick} aria-disabled={!fen}>Chess.com</a>
+              <Link to={explorerPath}
+                className={`link-button explore ${explorerFenProblem ? 'is-disabled' : ''}`}
+                onClick={event => { if (explorerFenProblem) event.preventDefault(); }}
+                aria-disabled={!!explorerFenProblem}
+                title={explorerFenProblem ?? 'Find videos that reach this position'}>Explore this position</Link>
             </div>
             <div className="fen-settings">
               <span className="fen-settings-label">Side to move</span>
+              {renderFieldSource('turn')}
               <div className="fen-settings-switches">
                 <button type="button" className={`switch-button ${sideToMove === 'w' ? 'is-active' : ''}`}
                   onClick={() => handleSideToMoveChange('w')} disabled={!fen}>White</button>
@@ -361,6 +754,7 @@ function AnalyzerPage() {
             </div>
             <div className="fen-settings castling-settings">
               <span className="fen-settings-label">Castling</span>
+              {renderFieldSource('castling')}
               <div className="castling-groups">
                 <div className="castling-group">
                   <span className="castling-group-label">W</span>
@@ -378,6 +772,18 @@ function AnalyzerPage() {
                 </div>
               </div>
             </div>
+            <div className="fen-settings">
+              <span className="fen-settings-label">En passant</span>
+              {renderFieldSource('enPassant')}
+              <select className="en-passant-select" value={enPassantSquare} disabled={!fen}
+                onChange={e => handleEnPassantChange(e.target.value)} aria-label="En-passant square">
+                <option value="-">None</option>
+                {[...new Set([...enPassantOptions, ...(enPassantSquare !== '-' ? [enPassantSquare] : [])])].map(square => (
+                  <option key={square} value={square}>{square}</option>
+                ))}
+              </select>
+            </div>
+            <EnginePanel fen={fen || null} />
           </div>
         </div>
       </div>
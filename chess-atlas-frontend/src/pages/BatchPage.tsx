@@ -0,0 +1,297 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { useDropzone, type FileRejection } from 'react-dropzone';
+import { Chess } from 'chess.js';
+import { useSettings } from '../hooks/useSettings';
+import {
+  ACCEPTED_IMAGE_TYPES,
+  MAX_SOURCE_SIZE_BYTES,
+  completeFen,
+  formatBytes,
+  getDropRejectionMessage,
+  getFileValidationError,
+  type Orientation,
+} from '../lib/analyzeBoard';
+import { analyzeBoard, normalizeApiError } from '../lib/apiClient';
+import { toCsv, toEpd, toMultiGamePgn, type ExportablePosition } from '../lib/batchExport';
+import { downloadTextFile } from '../lib/download';
+import { prepareImage } from '../lib/image';
+
+type BatchStatus = 'queued' | 'preparing' | 'uploading' | 'analyzing' | 'done' | 'error';
+
+interface BatchItem {
+  id: number;
+  file: File;
+  preview: string;
+  orientation: Orientation;
+  status: BatchStatus;
+  /** Upload progress, 0..1 */
+  progress: number;
+  fen: string;
+  error: string;
+  /** Size actually sent after downscaling; null until prepared. */
+  uploadSize: number | null;
+}
+
+type ExportFormat = 'csv' | 'epd' | 'pgn';
+
+// Keep this low: the analysis server runs one model per worker
+const MAX_CONCURRENT_REQUESTS = 3;
+
+const EXPORTERS: Record<ExportFormat, { build: (p: ExportablePosition[]) => string; mime: string }> = {
+  csv: { build: toCsv, mime: 'text/csv' },
+  epd: { build: toEpd, mime: 'text/plain' },
+  pgn: { build: toMultiGamePgn, mime: 'application/x-chess-pgn' },
+};
+
+const isValidFen = (fen: string): boolean => {
+  try {
+    new Chess(fen);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const STATUS_LABELS: Record<BatchStatus, string> = {
+  queued: 'Queued',
+  preparing: 'Preparing...',
+  uploading: 'Uploading',
+  analyzing: 'Analyzing...',
+  done: 'Done',
+  error: 'Failed',
+};
+
+function BatchPage() {
+  const { settings: { defaultOrientation, defaultSideToMove } } = useSettings();
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [orientation, setOrientation] = useState<Orientation>(defaultOrientation);
+  const nextIdRef = useRef(0);
+  // Ids with a request in flight; tracked outside state so the scheduler never double-starts an item
+  const inFlightRef = useRef<Set<number>>(new Set());
+  // Lets Remove / Clear all cancel requests that are still running
+  const controllersRef = useRef<Map<number, AbortController>>(new Map());
+  // Latest items for the unmount cleanup; synced after each commit rather than during render
+  const itemsRef = useRef(items);
+  useEffect(() => { itemsRef.current = items; }, [items]);
+
+  const updateItem = useCallback((id: number, patch: Partial<BatchItem>) => {
+    setItems(prev => prev.map(item => (item.id === id ? { ...item, ...patch } : item)));
+  }, []);
+
+  const runItem = useCallback(async (item: BatchItem) => {
+    const controller = new AbortController();
+    controllersRef.current.set(item.id, controller);
+    updateItem(item.id, { status: 'preparing', progress: 0, error: '' });
+    let patch: Partial<BatchItem> | null;
+    try {
+      const prepared = await prepareImage(item.file, { signal: controller.signal });
+      updateItem(item.id, { status: 'uploading', uploadSize: prepared.file.size });
+      const analysis = await analyzeBoard(prepared.file, item.orientation, {
+        signal: controller.signal,
+        onUploadProgress: event => {
+          const progress = event.total ? event.loaded / event.total : 0;
+          updateItem(item.id, progress >= 1 ? { status: 'analyzing', progress: 1 } : { progress });
+        },
+      });
+      const fen = completeFen(analysis.fen, defaultSideToMove);
+      patch = isValidFen(fen)
+        ? { status: 'done', fen }
+        : { status: 'error', fen, error: 'API returned an invalid FEN string.' };
+    } catch (err) {
+      const failure = normalizeApiError(err);
+      patch = failure.cancelled ? null : { status: 'error', error: failure.message };
+    }
+    inFlightRef.current.delete(item.id);
+    controllersRef.current.delete(item.id);
+    if (patch) updateItem(item.id, patch);
+  }, [updateItem, defaultSideToMove]);
+
+  // Bounded-concurrency queue: whenever the list changes, top up the running requests
+  useEffect(() => {
+    const slots = MAX_CONCURRENT_REQUESTS - inFlightRef.current.size;
+    if (slots <= 0) return;
+    const ready = items
+      .filter(item => item.status === 'queued' && !inFlightRef.current.has(item.id))
+      .slice(0, slots);
+    for (const item of ready) {
+      inFlightRef.current.add(item.id);
+      void runItem(item);
+    }
+  }, [items, runItem]);
+
+  useEffect(() => () => {
+    for (const controller of controllersRef.current.values()) controller.abort();
+    for (const item of itemsRef.current) URL.revokeObjectURL(item.preview);
+  }, []);
+
+  const addFiles = useCallback((files: File[], rejections: FileRejection[]) => {
+    const makeItem = (file: File, error: string): BatchItem => ({
+      id: nextIdRef.current++,
+      file,
+      preview: URL.createObjectURL(file),
+      orientation,
+      status: error ? 'error' : 'queued',
+      progress: 0,
+      fen: '',
+      error,
+      uploadSize: null,
+    });
+    const added = [
+      ...files.map(file => makeItem(file, getFileValidationError(file) ?? '')),
+      ...rejections.map(rejection => makeItem(rejection.file, getDropRejectionMessage(rejection))),
+    ];
+    setItems(prev => [...prev, ...added]);
+  }, [orientation]);
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop: addFiles,
+    accept: ACCEPTED_IMAGE_TYPES,
+    maxSize: MAX_SOURCE_SIZE_BYTES,
+    multiple: true,
+  });
+
+  const handleRetry = (item: BatchItem) => {
+    if (getFileValidationError(item.file)) return;
+    updateItem(item.id, { status: 'queued', orientation, error: '', progress: 0 });
+  };
+
+  const handleRetryFailed = () => {
+    setItems(prev => prev.map(item =>
+      item.status === 'error' && !getFileValidationError(item.file)
+        ? { ...item, status: 'queued', orientation, error: '', progress: 0 }
+        : item,
+    ));
+  };
+
+  const handleRemove = (item: BatchItem) => {
+    controllersRef.current.get(item.id)?.abort();
+    URL.revokeObjectURL(item.preview);
+    setItems(prev => prev.filter(i => i.id !== item.id));
+  };
+
+  const handleClear = () => {
+    for (const controller of controllersRef.current.values()) controller.abort();
+    for (const item of items) URL.revokeObjectURL(item.preview);
+    setItems([]);
+  };
+
+  const exportable: ExportablePosition[] = items
+    .filter(item => item.status === 'done' && isValidFen(item.fen))
+    .map(item => ({ name: item.file.name, fen: item.fen }));
+
+  const handleExport = (format: ExportFormat) => {
+    if (exportable.length === 0) return;
+    const { build, mime } = EXPORTERS[format];
+    downloadTextFile(`chess-atlas-batch.${format}`, build(exportable), mime);
+  };
+
+  const doneCount = items.filter(item => item.status === 'done').length;
+  const errorCount = items.filter(item => item.status === 'error').length;
+  const pendingCount = items.length - doneCount - errorCount;
+
+  return (
+    <div className="container">
+      <div className="top-section">
+        <div {...getRootProps()} className="dropzone">
+          <input {...getInputProps()} />
+          {isDragActive ? (
+            <p>Drop the images here ...</p>
+          ) : (
+            <p>Drag 'n' drop any number of board photos here, or click to select</p>
+          )}
+        </div>
+
+        <div className="batch-toolbar">
+          <div className="fen-settings-switches">
+            <span className="fen-settings-label">New photos taken from</span>
+            <button type="button" className={`switch-button ${orientation === 'white' ? 'is-active' : ''}`}
+              onClick={() => setOrientation('white')}>White</button>
+            <button type="button" className={`switch-button ${orientation === 'black' ? 'is-active' : ''}`}
+              onClick={() => setOrientation('black')}>Black</button>
+          </div>
+          {items.length > 0 && (
+            <span className="batch-summary">
+              {doneCount}/{items.length} done
+              {pendingCount > 0 && ` · ${pendingCount} pending`}
+              {errorCount > 0 && ` · ${errorCount} failed`}
+            </span>
+          )}
+        </div>
+
+        {items.length > 0 && (
+          <div className="batch-actions">
+            {(['csv', 'epd', 'pgn'] as const).map(format => (
+              <button key={format} type="button" className="button" onClick={() => handleExport(format)}
+                disabled={exportable.length === 0}>Export {format.toUpperCase()}</button>
+            ))}
+            <button type="button" className="switch-button" onClick={handleRetryFailed}
+              disabled={errorCount === 0}>Retry failed</button>
+            <button type="button" className="switch-button" onClick={handleClear}>Clear all</button>
+          </div>
+        )}
+      </div>
+
+      {items.length > 0 && (
+        <table className="batch-table">
+          <thead>
+            <tr>
+              <th>Image</th>
+              <th>File</th>
+              <th>Status</th>
+              <th>FEN</th>
+              <th aria-label="Actions" />
+            </tr>
+          </thead>
+          <tbody>
+            {items.map(item => {
+              const fenIsValid = !item.fen || isValidFen(item.fen);
+              return (
+                <tr key={item.id} className={`batch-row is-${item.status}`}>
+                  <td><img src={item.preview} alt={item.file.name} className="batch-thumbnail" /></td>
+                  <td className="batch-filename" title={item.file.name}>
+                    {item.file.name}
+                    <div className="batch-file-size">
+                      {formatBytes(item.file.size)}
+                      {item.uploadSize !== null && item.uploadSize !== item.file.size && ` → ${formatBytes(item.uploadSize)}`}
+                    </div>
+                  </td>
+                  <td className="batch-status">
+                    {STATUS_LABELS[item.status]}
+                    {item.status === 'uploading' && ` ${Math.round(item.progress * 100)}%`}
+                    {(item.status === 'uploading' || item.status === 'analyzing') && (
+                      <progress className="batch-progress" max={1} value={item.status === 'analyzing' ? undefined : item.progress} />
+                    )}
+                    {item.error && <div className="batch-error">{item.error}</div>}
+                  </td>
+                  <td>
+                    <input
+                      type="text"
+                      className={`fen-input batch-fen-input${fenIsValid ? '' : ' is-invalid'}`}
+                      value={item.fen}
+                      onChange={e => updateItem(item.id, { fen: e.target.value })}
+                      disabled={item.status !== 'done' && !item.fen}
+                      placeholder="—"
+                      spellCheck={false}
+                    />
+                  </td>
+                  <td className="batch-row-actions">
+                    {item.status === 'error' && !getFileValidationError(item.file) && (
+                      <button type="button" className="switch-button" onClick={() => handleRetry(item)}>Retry</button>
+                    )}
+                    {item.status === 'done' && fenIsValid && (
+                      <a className="switch-button" target="_blank" rel="noopener noreferrer"
+                        href={`https://lichess.org/analysis/${item.fen.replace(/ /g, '%20')}`}>Lichess</a>
+                    )}
+                    <button type="button" className="switch-button" onClick={() => handleRemove(item)}>Remove</button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+export default BatchPage;
@@ -0,0 +1,64 @@
+import { act, cleanup, fireEvent, render, screen } from '@testing-library/react';
+import { MemoryRouter } from 'react-router-dom';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import SettingsProvider from '../components/SettingsProvider';
+import { apiHttp, lookupPosition } from '../lib/apiClient';
+import { INITIAL_FEN } from '../lib/fen';
+import { deduplicateResults } from '../lib/videoResults';
+import { installMockBackend, setMockScenario } from '../mocks/mockBackend';
+import ExplorerPage from './ExplorerPage';
+
+const AFTER_E4 = 'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq - 0 1';
+
+const countText = (count: number) => `${count} result${count !== 1 ? 's' : ''}`;
+
+describe('ExplorerPage lookups', () => {
+  let uninstall: () => void;
+
+  beforeEach(() => {
+    sessionStorage.clear();
+    localStorage.clear();
+    uninstall = installMockBackend(apiHttp);
+  });
+
+  afterEach(() => {
+    cleanup();
+    vi.useRealTimers();
+    uninstall();
+  });
+
+  it('ignores an older lookup that settles after a newer one', async () => {
+    // Expected playlists for both positions, fetched straight from the mock
+    setMockScenario('success');
+    const [startResults, e4Results] = await Promise.all(
+      [INITIAL_FEN, AFTER_E4].map(fen => lookupPosition(fen).then(deduplicateResults)),
+    );
+    expect(startResults.length).not.toBe(e4Results.length);
+    sessionStorage.clear();
+
+    vi.useFakeTimers();
+    // The start position's lookup takes 4 s...
+    setMockScenario('slow');
+    render(
+      <SettingsProvider>
+        <MemoryRouter initialEntries={['/explorer']}>
+          <ExplorerPage />
+        </MemoryRouter>
+      </SettingsProvider>,
+    );
+    expect(screen.getByText('Searching...')).toBeTruthy();
+
+    // ...while 1.e4, played straight after, answers in 300 ms
+    setMockScenario('success');
+    fireEvent.change(screen.getByLabelText('Move in SAN or UCI'), { target: { value: 'e4' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Play' }));
+
+    await act(async () => { await vi.advanceTimersByTimeAsync(500); });
+    expect(screen.getByText(countText(e4Results.length))).toBeTruthy();
+
+    // Long after the slow request would have come back, 1.e4's videos are still the ones shown
+    await act(async () => { await vi.advanceTimersByTimeAsync(5000); });
+    expect(screen.getByText(countText(e4Results.length))).toBeTruthy();
+    expect(screen.queryByText(countText(startResults.length))).toBeNull();
+  });
+});
@@ -1,51 +1,65 @@
 import { useState, useCallback, useMemo, useEffect, useRef, useTransition } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
 import { Chess } from 'chess.js';
 import Chessground from '@react-chess/chessground';
 import type { Key } from 'chessground/types';
-import axios from 'axios';
-
-import 'chessground/assets/chessground.base.css';
-import 'chessground/assets/chessground.brown.css';
-import 'chessground/assets/chessground.cburnett.css';
-
-const LOOKUP_API_URL =
-  import.meta.env.VITE_LOOKUP_API_URL ?? 'https://api.chess-atlas.com/api/v1/lookup-position';
+import BoardDescription from '../components/BoardDescription';
+import CandidateMoves from '../components/CandidateMoves';
+import EnginePanel from '../components/EnginePanel';
+import FenPanel from '../components/FenPanel';
+import MoveInput from '../components/MoveInput';
+import MoveList from '../components/MoveList';
+import PgnPanel from '../components/PgnPanel';
+import PlaylistControls from '../components/PlaylistControls';
+import PromotionPicker from '../components/PromotionPicker';
+import VideoPlayer from '../components/VideoPlayer';
+import { useSettings } from '../hooks/useSettings';
+import { fetchVideoDetails, normalizeApiError, type VideoDetails, type VideoResult } from '../lib/apiClient';
+import { listCandidateMoves, type CandidateMove, type Promotion } from '../lib/candidateMoves';
+import { copyText } from '../lib/clipboard';
+import { downloadTextFile } from '../lib/download';
+import { INITIAL_FEN } from '../lib/fen';
+import { FEN_MATCH_MODES, type FenMatchMode } from '../lib/fenMatching';
+import {
+  addLine,
+  addMove,
+  countNodes,
+  createTree,
+  deleteSubtree,
+  getLine,
+  getLineEnd,
+  getPath,
+  getVariationRoot,
+  promoteVariation,
+  type MoveTree,
+} from '../lib/moveTree';
+import { findNearestOpening, lookupOpening } from '../lib/openings';
+import { completeFen } from '../lib/analyzeBoard';
+import { buildLinePgn, parsePgn, type PgnHeaders } from '../lib/pgn';
+import {
+  buildExplorerSearch,
+  explorerFenError,
+  isSamePosition,
+  parseExplorerSearch,
+  type HistoryEntry,
+} from '../lib/positionUrl';
+import { getCachedLookup, lookupPositionCached, lookupPositions } from '../lib/positionLookups';
+import { useShortcuts } from '../lib/shortcuts';
+import {
+  DEFAULT_PLAYLIST_OPTIONS,
+  filterResults,
+  groupResultsByVideo,
+  sortPlaylist,
+  type PlaylistOptions,
+} from '../lib/videoResults';
 
 const TIMESTAMP_OFFSET_SECONDS = 1;
-const INITIAL_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+const DEFAULT_CLIP_SECONDS = 30;
+const MIN_CLIP_SECONDS = 5;
 const PAGE_SIZE = 100;
-
-interface VideoResult {
-  video_id: string;
-  timestamp_seconds: number;
-  orientation: 'white' | 'black';
-}
-
-interface HistoryEntry {
-  fen: string;
-  lastMove?: [Key, Key];
-  san?: string;
-}
-
-/** Keep the earliest timestamp per video; drop any within 3 s of a kept one. */
-function deduplicateResults(results: VideoResult[]): VideoResult[] {
-  const grouped = new Map<string, number[]>();
-  for (const r of results) {
-    if (!grouped.has(r.video_id)) grouped.set(r.video_id, []);
-    grouped.get(r.video_id)!.push(r.timestamp_seconds);
-  }
-  const keepMap = new Map<string, Set<number>>();
-  for (const [vid, timestamps] of grouped) {
-    const sorted = [...timestamps].sort((a, b) => a - b);
-    const kept = new Set<number>();
-    let last = -Infinity;
-    for (const ts of sorted) {
-      if (ts - last > 3) { kept.add(ts); last = ts; }
-    }
-    keepMap.set(vid, kept);
-  }
-  return results.filter(r => keepMap.get(r.video_id)?.has(r.timestamp_seconds));
-}
+const PREFETCH_DELAY_MS = 250;
+// Counted without asking; a middlegame has 30-40 legal moves and each one is a lookup
+const MAX_COUNTED_CANDIDATES = 6;
 
 function getLegalMoves(fen: string): Map<Key, Key[]> {
   const chess = new Chess(fen);
@@ -65,77 +79,247 @@ function formatTimestamp(seconds: number): string {
   return `${m}:${String(s).padStart(2, '0')}`;
 }
 
+/** A bare /explorer carries no orientation, so it opens on the user's default side. */
+function orientationFromSearch(search: string, fallback: 'white' | 'black'): 'white' | 'black' {
+  return search.replace(/^\?/, '') ? parseExplorerSearch(search).orientation : fallback;
+}
+
 export function ExplorerPage() {
-  const [history, setHistory] = useState<HistoryEntry[]>([{ fen: INITIAL_FEN }]);
-  const [historyIndex, setHistoryIndex] = useState(0);
-  const [boardOrientation, setBoardOrientation] = useState<'white' | 'black'>('white');
+  const location = useLocation();
+  const navigate = useNavigate();
+  const [initialUrlState] = useState(() => {
+    const parsed = parseExplorerSearch(location.search);
+    return addLine(createTree(parsed.history[0].fen), parsed.history, parsed.historyIndex);
+  });
+  const [tree, setTree] = useState<MoveTree>(initialUrlState.tree);
+  const [currentId, setCurrentId] = useState<number>(initialUrlState.nodeId);
+  // Tags from the last imported PGN, written back out on export
+  const [pgnHeaders, setPgnHeaders] = useState<PgnHeaders>({});
+  const { settings: { defaultOrientation, fenMatchMode: matchMode }, updateSettings } = useSettings();
+  const [boardOrientation, setBoardOrientation] = useState<'white' | 'black'>(
+    () => orientationFromSearch(location.search, defaultOrientation),
+  );
   const [videoResults, setVideoResults] = useState<VideoResult[]>([]);
   const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
   const [selectedVideo, setSelectedVideo] = useState<VideoResult | null>(null);
+  // "Watch all": play each result's clip in playlist order, moving on after clipSeconds
+  const [isWatchingAll, setIsWatchingAll] = useState(false);
+  const [clipSeconds, setClipSeconds] = useState(DEFAULT_CLIP_SECONDS);
   const [isSearching, setIsSearching] = useState(false);
+  const [lookupError, setLookupError] = useState('');
   const [, startTransition] = useTransition();
-  const [videoTitles, setVideoTitles] = useState<Map<string, string>>(new Map());
+  const [videoDetails, setVideoDetails] = useState<Map<string, VideoDetails>>(new Map());
+  // Not reset by fetchVideos: filters and sort carry over from one position to the next
+  const [playlistOptions, setPlaylistOptions] = useState<PlaylistOptions>(DEFAULT_PLAYLIST_OPTIONS);
   const playlistRef = useRef<HTMLDivElement>(null);
   const [playlistOpen, setPlaylistOpen] = useState(false);
-  // Incremented on every fetch; lets us discard stale responses from previous positions
-  const fetchSeqRef = useRef(0);
+  // Lookup for the current position; aborted when the user moves on before it returns
+  const lookupAbortRef = useRef<AbortController | null>(null);
   // Persists fetched titles across position changes so we don't re-fetch
-  const titleCacheRef = useRef<Map<string, string>>(new Map());
+  const detailsCacheRef = useRef<Map<string, VideoDetails>>(new Map());
+  // Query string this page last wrote, so the URL listener can tell our own updates from back/forward
+  const lastSearchRef = useRef<string | null>(null);
 
-  const currentEntry = history[historyIndex];
+  const currentEntry = tree.nodes[currentId];
   const currentFen = currentEntry.fen;
+  const lineEndId = getLineEnd(tree, currentId);
   const turn = useMemo(() => new Chess(currentFen).turn(), [currentFen]);
   const legalMoves = useMemo(() => getLegalMoves(currentFen), [currentFen]);
+  const candidates = useMemo(() => listCandidateMoves(currentFen), [currentFen]);
+  // Video counts for the positions one move ahead, filled in as the batch lookup settles
+  const [candidateCounts, setCandidateCounts] = useState<Map<string, number | null>>(new Map());
+  // Position whose every candidate the user asked to count; forgotten once the position changes
+  const [countAllFen, setCountAllFen] = useState<string | null>(null);
+  // A pawn move to the last rank waiting on the promotion piece; dropped once the position changes
+  const [pendingPromotion, setPendingPromotion] = useState<{ fen: string; from: Key; to: Key } | null>(null);
+  const promotionMove = pendingPromotion?.fen === currentFen ? pendingPromotion : null;
+  const openingMatch = useMemo(
+    () => findNearestOpening(getPath(tree, currentId).map(id => tree.nodes[id].fen)),
+    [tree, currentId],
+  );
 
-  const fetchVideos = useCallback(async (fen: string) => {
-    const seq = ++fetchSeqRef.current;
-    setIsSearching(true);
-    setVideoResults([]);
+  const fetchVideos = useCallback(async (fen: string, match: FenMatchMode = matchMode) => {
+    lookupAbortRef.current?.abort();
+    const controller = new AbortController();
+    lookupAbortRef.current = controller;
+    setLookupError('');
     setVisibleCount(PAGE_SIZE);
     setSelectedVideo(null);
+    setIsWatchingAll(false);
+    // Seen recently: show it straight away instead of flashing "Searching..."
+    const cached = getCachedLookup(fen, match);
+    if (cached) {
+      lookupAbortRef.current = null;
+      setIsSearching(false);
+      setVideoResults(cached);
+      return;
+    }
+    setIsSearching(true);
+    setVideoResults([]);
     try {
-      const response = await axios.get<{ status: string; data: VideoResult[] }>(
-        LOOKUP_API_URL,
-        { params: { fen }, timeout: 10000 },
-      );
-      if (seq !== fetchSeqRef.current) return; // stale — a newer request is in flight
-      if (response.data.status === 'success') {
-        const results = deduplicateResults(response.data.data);
-        startTransition(() => { setVideoResults(results); });
-      }
+      const results = await lookupPositionCached(fen, { signal: controller.signal, match });
+      if (controller.signal.aborted) return;
+      startTransition(() => { setVideoResults(results); });
     } catch (err) {
-      if (seq !== fetchSeqRef.current) return;
+      const failure = normalizeApiError(err);
+      if (failure.cancelled || controller.signal.aborted) return;
       console.error('Position lookup failed:', err);
+      setLookupError(failure.message);
     } finally {
-      if (seq === fetchSeqRef.current) setIsSearching(false);
+      if (lookupAbortRef.current === controller) {
+        lookupAbortRef.current = null;
+        setIsSearching(false);
+      }
+    }
+  }, [startTransition, matchMode]);
+
+  useEffect(() => () => lookupAbortRef.current?.abort(), []);
+
+  // Candidate counts, plus a background prefetch of the neighbouring positions so
+  // stepping through the line hits the cache. Neighbours go first: back, forward,
+  // then the tree's other continuations, then the likeliest other moves.
+  const parentFen = currentEntry.parentId !== null ? tree.nodes[currentEntry.parentId].fen : null;
+  const childFens = useMemo(
+    () => currentEntry.children.map(id => tree.nodes[id].fen),
+    [tree, currentEntry],
+  );
+  const countedFens = useMemo(() => {
+    if (countAllFen === currentFen) return new Set(candidates.map(move => move.fen));
+    // Moves already in the tree, then book moves, then chess.js order
+    const likelihood = (move: CandidateMove) =>
+      childFens.includes(move.fen) ? 2 : lookupOpening(move.fen) ? 1 : 0;
+    const likeliest = [...candidates].sort((a, b) => likelihood(b) - likelihood(a));
+    return new Set(likeliest.slice(0, MAX_COUNTED_CANDIDATES).map(move => move.fen));
+  }, [candidates, childFens, countAllFen, currentFen]);
+  useEffect(() => {
+    const initial = new Map<string, number | null>();
+    for (const move of candidates) {
+      const cached = getCachedLookup(move.fen, matchMode);
+      if (cached) initial.set(move.fen, cached.length);
     }
-  }, [startTransition]);
+    setCandidateCounts(initial);
+    // The position's own lookup goes first; nothing queues behind it while it is still out
+    if (isSearching) return;
+    const controller = new AbortController();
+    const queue = [...(parentFen ? [parentFen] : []), ...childFens, ...countedFens];
+    // Wait a beat so holding an arrow key doesn't queue lookups for every position passed
+    const timer = setTimeout(() => {
+      void lookupPositions(queue, {
+        signal: controller.signal,
+        match: matchMode,
+        onResult: (fen, results) => {
+          if (controller.signal.aborted || !countedFens.has(fen)) return;
+          setCandidateCounts(prev => new Map(prev).set(fen, results ? results.length : null));
+        },
+      });
+    }, PREFETCH_DELAY_MS);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [candidates, parentFen, childFens, countedFens, matchMode, isSearching]);
 
+  // URL -> state: runs on first load and whenever the user steps with back/forward
   useEffect(() => {
-    void fetchVideos(INITIAL_FEN);
-  }, [fetchVideos]);
+    const search = location.search.replace(/^\?/, '');
+    if (search === lastSearchRef.current) return;
+    lastSearchRef.current = search;
+    const parsed = parseExplorerSearch(search);
+    // Merge the linked line into the existing tree so stepping back/forward keeps side variations
+    const baseTree = tree.nodes[tree.rootId].fen === parsed.history[0].fen
+      ? tree
+      : createTree(parsed.history[0].fen);
+    const merged = addLine(baseTree, parsed.history, parsed.historyIndex);
+    setTree(merged.tree);
+    setCurrentId(merged.nodeId);
+    setBoardOrientation(orientationFromSearch(search, defaultOrientation));
+    void fetchVideos(parsed.history[parsed.historyIndex].fen);
+  }, [location.search, tree, fetchVideos, defaultOrientation]);
+
+  // State -> URL: each new position is a browser history entry; flipping the board just replaces it
+  useEffect(() => {
+    const { entries, index } = getLine(tree, currentId);
+    const search = buildExplorerSearch({ history: entries, historyIndex: index, orientation: boardOrientation });
+    const current = window.location.search.replace(/^\?/, '');
+    if (search === current) return;
+    lastSearchRef.current = search;
+    navigate({ search }, { replace: isSamePosition(search, current) });
+  }, [tree, currentId, boardOrientation, navigate]);
 
   // Fetch YouTube titles for any video IDs not yet in cache
   useEffect(() => {
     if (videoResults.length === 0) return;
     const uncachedIds = [...new Set(videoResults.map(v => v.video_id))].filter(
-      id => !titleCacheRef.current.has(id),
+      id => !detailsCacheRef.current.has(id),
     );
     if (uncachedIds.length === 0) {
-      setVideoTitles(new Map(titleCacheRef.current));
+      setVideoDetails(new Map(detailsCacheRef.current));
       return;
     }
     void Promise.allSettled(
       uncachedIds.map(id =>
-        fetch(
-          `https://www.youtube.com/oembed?url=https://www.youtube.com/watch?v=${id}&format=json`,
-        )
-          .then(r => r.json() as Promise<{ title: string }>)
-          .then(data => { titleCacheRef.current.set(id, data.title); }),
+        fetchVideoDetails(id).then(details => { detailsCacheRef.current.set(id, details); }),
       ),
-    ).then(() => { setVideoTitles(new Map(titleCacheRef.current)); });
+    ).then(() => { setVideoDetails(new Map(detailsCacheRef.current)); });
   }, [videoResults]);
 
+  const filteredResults = useMemo(
+    () => filterResults(videoResults, playlistOptions, videoDetails),
+    [videoResults, playlistOptions, videoDetails],
+  );
+  const playlistItems = useMemo(
+    () => playlistOptions.grouped
+      ? sortPlaylist(groupResultsByVideo(filteredResults), playlistOptions.sort, filteredResults, videoDetails)
+      : sortPlaylist(filteredResults, playlistOptions.sort, filteredResults, videoDetails),
+    [filteredResults, playlistOptions, videoDetails],
+  );
+
+  const handleMatchModeChange = (mode: FenMatchMode) => {
+    updateSettings({ fenMatchMode: mode });
+    void fetchVideos(currentFen, mode);
+  };
+
+  const handlePlaylistOptionsChange = (options: PlaylistOptions) => {
+    setPlaylistOptions(options);
+    setVisibleCount(PAGE_SIZE);
+  };
+
+  // Every hit in display order; grouped cards contribute each of their timestamps in turn
+  const playbackQueue = useMemo(
+    () => playlistItems.flatMap(item => ('results' in item ? item.results : [item])),
+    [playlistItems],
+  );
+
+  /** Open `video`, paging the playlist far enough that its card is rendered. */
+  const openVideo = (video: VideoResult) => {
+    const itemIndex = playlistItems.findIndex(item =>
+      'results' in item ? item.results.includes(video) : item === video);
+    if (itemIndex >= visibleCount) setVisibleCount(Math.ceil((itemIndex + 1) / PAGE_SIZE) * PAGE_SIZE);
+    setSelectedVideo(video);
+  };
+
+  const handleWatchAll = () => {
+    if (isWatchingAll) {
+      setIsWatchingAll(false);
+      return;
+    }
+    if (playbackQueue.length === 0) return;
+    setIsWatchingAll(true);
+    openVideo(playbackQueue[0]);
+  };
+
+  const handleClipEnd = () => {
+    if (!isWatchingAll || !selectedVideo) return;
+    const next = playbackQueue[playbackQueue.indexOf(selectedVideo) + 1];
+    if (next) openVideo(next);
+    else setIsWatchingAll(false);
+  };
+
+  const handleCloseVideo = () => {
+    setSelectedVideo(null);
+    setIsWatchingAll(false);
+  };
+
   // Scroll playlist to top when results change
   useEffect(() => {
     if (playlistRef.current) playlistRef.current.scrollTop = 0;
@@ -144,9 +328,10 @@ export function ExplorerPage() {
   // Clear chessground's cached board bounds whenever the layout may shift
   // (move-history growing changes board-panel height without a scroll/resize event,
   //  which would otherwise leave chessground with a stale bounding rect)
+  const nodeCount = countNodes(tree);
   useEffect(() => {
     window.dispatchEvent(new Event('resize'));
-  }, [history.length]);
+  }, [nodeCount]);
 
   // Scroll the opened card to the top of the playlist
   useEffect(() => {
@@ -158,36 +343,150 @@ export function ExplorerPage() {
     playlistRef.current.scrollBy({ top: cardTop - containerTop, behavior: 'smooth' });
   }, [selectedVideo]);
 
-  const handleAfterMove = useCallback(
-    (orig: string, dest: string) => {
+  const playMove = useCallback(
+    (orig: Key, dest: Key, promotion?: Promotion) => {
       const chess = new Chess(currentFen);
-      const moveResult = chess.move({ from: orig, to: dest, promotion: 'q' });
+      const moveResult = chess.move({ from: orig, to: dest, promotion });
       if (!moveResult) return;
 
       const newFen = chess.fen();
-      const newEntry: HistoryEntry = { fen: newFen, lastMove: [orig as Key, dest as Key], san: moveResult.san };
-      const newHistory = [...history.slice(0, historyIndex + 1), newEntry];
-      setHistory(newHistory);
-      setHistoryIndex(newHistory.length - 1);
+      const newEntry: HistoryEntry = { fen: newFen, lastMove: [orig, dest], san: moveResult.san };
+      // A move that differs from the existing continuation becomes a new variation
+      const { tree: nextTree, nodeId } = addMove(tree, currentId, newEntry);
+      setTree(nextTree);
+      setCurrentId(nodeId);
       void fetchVideos(newFen);
     },
-    [currentFen, history, historyIndex, fetchVideos],
+    [currentFen, tree, currentId, fetchVideos],
+  );
+
+  // Asks for the piece when a promotion comes in without one (dragged, or typed as "e8")
+  const requestMove = useCallback(
+    (orig: Key, dest: Key, promotion?: Promotion) => {
+      const isPromotion = candidates.some(move => move.from === orig && move.to === dest && move.promotion);
+      if (isPromotion && !promotion) {
+        setPendingPromotion({ fen: currentFen, from: orig, to: dest });
+        return;
+      }
+      playMove(orig, dest, promotion);
+    },
+    [candidates, currentFen, playMove],
   );
 
+  const handleAfterMove = useCallback(
+    (orig: string, dest: string) => requestMove(orig as Key, dest as Key),
+    [requestMove],
+  );
+
+  const handlePickPromotion = (promotion: Promotion) => {
+    if (!promotionMove) return;
+    setPendingPromotion(null);
+    playMove(promotionMove.from, promotionMove.to, promotion);
+  };
+
+  const handlePlayCandidate = (move: CandidateMove) => playMove(move.from, move.to, move.promotion);
+
   const navigateTo = useCallback(
-    (index: number) => {
-      setHistoryIndex(index);
-      void fetchVideos(history[index].fen);
+    (nodeId: number) => {
+      setCurrentId(nodeId);
+      void fetchVideos(tree.nodes[nodeId].fen);
     },
-    [history, fetchVideos],
+    [tree, fetchVideos],
   );
 
-  const handleReset = () => {
-    setHistory([{ fen: INITIAL_FEN }]);
-    setHistoryIndex(0);
-    void fetchVideos(INITIAL_FEN);
+  const rootFen = tree.nodes[tree.rootId].fen;
+
+  /** Start a fresh tree at `fen`; every move played so far is dropped. */
+  const reroot = (fen: string) => {
+    setTree(createTree(fen));
+    setCurrentId(0);
+    setPgnHeaders({});
+    void fetchVideos(fen);
+  };
+
+  // Back to the start of the current tree, which need not be the initial position
+  const handleReset = () => reroot(rootFen);
+
+  const handleLoadFen = (input: string): string | null => {
+    // A bare placement (as copied from a diagram) gets the same inferred fields as an analyzed photo
+    const fen = completeFen(input);
+    const error = explorerFenError(fen);
+    if (error) return error;
+    reroot(new Chess(fen).fen());
+    return null;
+  };
+
+  const handleImportPgn = (pgn: string): string | null => {
+    let parsed;
+    try {
+      parsed = parsePgn(pgn);
+    } catch (err) {
+      return err instanceof Error ? err.message : 'Could not read that PGN.';
+    }
+    const endId = getLineEnd(parsed.tree, parsed.tree.rootId);
+    setTree(parsed.tree);
+    setPgnHeaders(parsed.headers);
+    setCurrentId(endId);
+    void fetchVideos(parsed.tree.nodes[endId].fen);
+    return null;
+  };
+
+  const handleExportPgn = () => {
+    downloadTextFile('chess-atlas-line.pgn', buildLinePgn(tree, lineEndId, pgnHeaders), 'application/x-chess-pgn');
+  };
+
+  const variationRootId = getVariationRoot(tree, currentId);
+
+  const handlePromoteVariation = () => {
+    setTree(promoteVariation(tree, currentId));
+  };
+
+  const handleDeleteVariation = () => {
+    if (variationRootId === null) return;
+    const parentId = tree.nodes[variationRootId].parentId!;
+    setTree(deleteSubtree(tree, variationRootId));
+    navigateTo(parentId);
+  };
+
+  /** Open the playlist card `step` away from the one playing (the first card when none is). */
+  const stepPlaylist = (step: 1 | -1) => {
+    const index = selectedVideo
+      ? playlistItems.findIndex(item => ('results' in item ? item.results.includes(selectedVideo) : item === selectedVideo))
+      : -1;
+    const next = playlistItems[index === -1 ? 0 : index + step];
+    if (!next) return;
+    setIsWatchingAll(false);
+    openVideo('results' in next ? next.results[0] : next);
   };
 
+  useShortcuts([
+    { id: 'explorer-start', group: 'Explorer', label: 'First move', key: 'Home',
+      disabled: currentEntry.parentId === null, run: () => navigateTo(tree.rootId) },
+    { id: 'explorer-previous', group: 'Explorer', label: 'Previous move', key: 'ArrowLeft',
+      disabled: currentEntry.parentId === null, run: () => navigateTo(currentEntry.parentId!) },
+    { id: 'explorer-next', group: 'Explorer', label: 'Next move', key: 'ArrowRight',
+      disabled: currentEntry.children.length === 0, run: () => navigateTo(currentEntry.children[0]) },
+    { id: 'explorer-end', group: 'Explorer', label: 'Last move', key: 'End',
+      disabled: lineEndId === currentId, run: () => navigateTo(lineEndId) },
+    { id: 'explorer-flip', group: 'Explorer', label: 'Flip board', key: 'f',
+      run: () => setBoardOrientation(o => (o === 'white' ? 'black' : 'white')) },
+    { id: 'explorer-copy-fen', group: 'Explorer', label: 'Copy FEN', key: 'c',
+      // A refused copy has nowhere useful to be reported from a shortcut; the FEN is in the URL anyway
+      run: () => { void copyText(currentFen); } },
+    { id: 'explorer-next-video', group: 'Explorer', label: 'Next video', key: 'j',
+      disabled: playlistItems.length === 0, run: () => stepPlaylist(1) },
+    { id: 'explorer-previous-video', group: 'Explorer', label: 'Previous video', key: 'k',
+      disabled: playlistItems.length === 0, run: () => stepPlaylist(-1) },
+    { id: 'explorer-close-video', group: 'Explorer', label: 'Close video',
+      disabled: !selectedVideo, run: handleCloseVideo },
+    { id: 'explorer-watch-all', group: 'Explorer', label: isWatchingAll ? 'Stop watching' : 'Watch all videos',
+      disabled: !isWatchingAll && playbackQueue.length === 0, run: handleWatchAll },
+    { id: 'explorer-load-more', group: 'Explorer', label: 'Load more videos',
+      disabled: playlistItems.length <= visibleCount, run: () => setVisibleCount(c => c + PAGE_SIZE) },
+    { id: 'explorer-reset', group: 'Explorer', label: 'Reset to start', run: handleReset },
+    { id: 'explorer-export-pgn', group: 'Explorer', label: 'Export PGN', run: handleExportPgn },
+  ]);
+
   const chessgroundConfig = useMemo(
     () => ({
       fen: currentFen,
@@ -196,7 +495,7 @@ export function ExplorerPage() {
       lastMove: currentEntry.lastMove,
       movable: {
         free: false,
-        color: 'both' as const,
+        color: promotionMove ? undefined : ('both' as const),
         dests: legalMoves,
         showDests: true,
         events: { after: handleAfterMove },
@@ -204,27 +503,10 @@ export function ExplorerPage() {
       premovable: { enabled: false },
       highlight: { lastMove: true, check: true },
     }),
-    [currentFen, boardOrientation, turn, currentEntry.lastMove, legalMoves, handleAfterMove],
+    // promotionMove is a dependency so cancelling puts the dragged pawn back
+    [currentFen, boardOrientation, turn, currentEntry.lastMove, legalMoves, handleAfterMove, promotionMove],
   );
 
-  // Build move pairs for display (1. e4 e5, 2. Nf3 ...)
-  const movePairs: Array<{
-    number: number;
-    white: HistoryEntry | undefined;
-    whiteIndex: number;
-    black: HistoryEntry | undefined;
-    blackIndex: number;
-  }> = [];
-  for (let i = 1; i < history.length; i += 2) {
-    movePairs.push({
-      number: Math.ceil(i / 2),
-      white: history[i],
-      whiteIndex: i,
-      black: history[i + 1],
-      blackIndex: i + 1,
-    });
-  }
-
   return (
     <div className="explorer-container">
       <div className="explorer-main">
@@ -232,16 +514,26 @@ export function ExplorerPage() {
         <div className="explorer-board-panel">
           <div className="explorer-board-wrapper">
             <Chessground config={chessgroundConfig} />
+            {promotionMove && (
+              <PromotionPicker
+                color={turn === 'w' ? 'white' : 'black'}
+                onPick={handlePickPromotion}
+                onCancel={() => setPendingPromotion(null)}
+              />
+            )}
           </div>
+          <BoardDescription fen={currentFen} lastMoveSan={currentEntry.san} label="Explorer position" />
 
           <div className="explorer-controls">
-            <button type="button" className="button ctrl-btn" onClick={() => navigateTo(0)} disabled={historyIndex === 0} title="Start">&#124;&lt;</button>
-            <button type="button" className="button ctrl-btn" onClick={() => navigateTo(historyIndex - 1)} disabled={historyIndex === 0} title="Previous">&lt;</button>
-            <button type="button" className="button ctrl-btn" onClick={() => navigateTo(historyIndex + 1)} disabled={historyIndex === history.length - 1} title="Next">&gt;</button>
-            <button type="button" className="button ctrl-btn" onClick={() => navigateTo(history.length - 1)} disabled={historyIndex === history.length - 1} title="End">&gt;&#124;</button>
+            <button type="button" className="button ctrl-btn" onClick={() => navigateTo(tree.rootId)} disabled={currentEntry.parentId === null} title="Start">&#124;&lt;</button>
+            <button type="button" className="button ctrl-btn" onClick={() => navigateTo(currentEntry.parentId!)} disabled={currentEntry.parentId === null} title="Previous">&lt;</button>
+            <button type="button" className="button ctrl-btn" onClick={() => navigateTo(currentEntry.children[0])} disabled={currentEntry.children.length === 0} title="Next">&gt;</button>
+            <button type="button" className="button ctrl-btn" onClick={() => navigateTo(lineEndId)} disabled={lineEndId === currentId} title="End">&gt;&#124;</button>
             <button type="button" className="button ctrl-btn reset-btn" onClick={handleReset} title="Reset to start">Reset</button>
           </div>
 
+          <MoveInput candidates={candidates} onMove={requestMove} />
+
           <div className="explorer-orientation">
             <button
               type="button"
@@ -255,41 +547,58 @@ export function ExplorerPage() {
             >Black</button>
           </div>
 
-          <div className="move-history">
-            {history.length === 1 && (
-              <span className="placeholder-moves">Make a move to start...</span>
-            )}
-            {movePairs.map(pair => (
-              <span key={pair.number} className="move-pair">
-                <span className="move-number">{pair.number}.</span>
-                {pair.white && (
-                  <button
-                    type="button"
-                    className={`move-san${historyIndex === pair.whiteIndex ? ' is-active' : ''}`}
-                    onClick={() => navigateTo(pair.whiteIndex)}
-                  >
-                    {pair.white.san}
-                  </button>
-                )}
-                {pair.black && (
-                  <button
-                    type="button"
-                    className={`move-san${historyIndex === pair.blackIndex ? ' is-active' : ''}`}
-                    onClick={() => navigateTo(pair.blackIndex)}
-                  >
-                    {pair.black.san}
-                  </button>
-                )}
+          <EnginePanel fen={currentFen} />
+
+          <div className="opening-label" aria-live="polite">
+            {openingMatch ? (
+              <>
+                <span className="opening-eco">{openingMatch.opening.eco}</span>
+                <span className="opening-name">{openingMatch.opening.name}</span>
+                {openingMatch.pliesOutOfBook > 0 && <span className="opening-out-of-book">out of book</span>}
+              </>
+            ) : (
+              <span className="opening-name is-unknown">
+                {currentId === tree.rootId ? 'No moves played yet' : 'Not a named opening'}
               </span>
-            ))}
+            )}
+          </div>
+
+          <div className="move-history">
+            <MoveList tree={tree} currentId={currentId} onSelect={navigateTo} />
           </div>
+
+          <CandidateMoves
+            candidates={candidates}
+            counts={candidateCounts}
+            counted={countedFens}
+            onCountAll={() => setCountAllFen(currentFen)}
+            onPlay={handlePlayCandidate}
+          />
+
+          <PgnPanel onImport={handleImportPgn} onExport={handleExportPgn} />
+
+          <FenPanel rootFen={rootFen} onLoad={handleLoadFen} onStandardStart={() => reroot(INITIAL_FEN)} />
+
+          {variationRootId !== null && (
+            <div className="variation-controls">
+              <button type="button" className="switch-button" onClick={handlePromoteVariation}
+                title="Make this line the main line">Promote variation</button>
+              <button type="button" className="switch-button" onClick={handleDeleteVariation}
+                title="Remove this variation and everything after it">Delete variation</button>
+            </div>
+          )}
         </div>
 
         {/* Result count + mobile playlist toggle */}
         <p className="playlist-count">
           {!isSearching && videoResults.length > 0
-            ? `${videoResults.length} result${videoResults.length !== 1 ? 's' : ''}`
+            ? filteredResults.length === videoResults.length
+              ? `${videoResults.length} result${videoResults.length !== 1 ? 's' : ''}`
+              : `${filteredResults.length} of ${videoResults.length} results`
             : '\u00A0'}
+          {!isSearching && videoResults.length > 0 && matchMode !== 'exact' && (
+            <span className="playlist-match-note"> · {FEN_MATCH_MODES[matchMode].toLowerCase()}</span>
+          )}
         </p>
         <button
           type="button"
@@ -306,65 +615,115 @@ export function ExplorerPage() {
             className="playlist-close-btn"
             onClick={() => setPlaylistOpen(false)}
           >&times;</button>
+          <PlaylistControls
+            options={playlistOptions}
+            onChange={handlePlaylistOptionsChange}
+            matchMode={matchMode}
+            onMatchModeChange={handleMatchModeChange}
+          />
+          <div className="watch-all-controls">
+            <button
+              type="button"
+              className={`switch-button${isWatchingAll ? ' is-active' : ''}`}
+              onClick={handleWatchAll}
+              disabled={!isWatchingAll && playbackQueue.length === 0}
+              aria-pressed={isWatchingAll}
+            >{isWatchingAll ? 'Stop' : 'Watch all'}</button>
+            <label>
+              <input
+                type="number"
+                min={MIN_CLIP_SECONDS}
+                step={5}
+                value={clipSeconds}
+                onChange={e => setClipSeconds(Number(e.target.value))}
+                aria-label="Seconds to play from each video"
+              />
+              s per clip
+            </label>
+            {isWatchingAll && selectedVideo && (
+              <span className="watch-all-progress">
+                {playbackQueue.indexOf(selectedVideo) + 1} / {playbackQueue.length}
+              </span>
+            )}
+          </div>
           <div className="video-playlist" ref={playlistRef}>
             {isSearching && <p className="playlist-status">Searching...</p>}
-            {!isSearching && videoResults.length === 0 && (
+            {!isSearching && lookupError && <p className="playlist-status error">{lookupError}</p>}
+            {!isSearching && !lookupError && videoResults.length === 0 && (
               <p className="playlist-status">No videos found for this position.</p>
             )}
-            {videoResults.slice(0, visibleCount).map((video, i) => {
-              const isOpen =
-                selectedVideo?.video_id === video.video_id &&
-                selectedVideo?.timestamp_seconds === video.timestamp_seconds;
-              const start = Math.max(0, video.timestamp_seconds - TIMESTAMP_OFFSET_SECONDS);
+            {!isSearching && videoResults.length > 0 && filteredResults.length === 0 && (
+              <p className="playlist-status">No videos match these filters.</p>
+            )}
+            {playlistItems.slice(0, visibleCount).map((item, i) => {
+              const hits = 'results' in item ? item.results : [item];
+              const first = hits[0];
+              const isOpen = 'results' in item
+                ? selectedVideo?.video_id === item.video_id
+                : selectedVideo?.video_id === first.video_id && selectedVideo?.timestamp_seconds === first.timestamp_seconds;
+              const details = videoDetails.get(first.video_id);
               return (
                 <div
-                  key={`${video.video_id}-${video.timestamp_seconds}-${i}`}
+                  key={`${first.video_id}-${first.timestamp_seconds}-${i}`}
                   className={`video-card${isOpen ? ' is-open' : ''}`}
                 >
                   <button
                     type="button"
                     className="video-card-header"
-                    onClick={() => setSelectedVideo(isOpen ? null : video)}
+                    onClick={() => (isOpen ? handleCloseVideo() : setSelectedVideo(first))}
                   >
                     <img
-                      src={`https://img.youtube.com/vi/${video.video_id}/mqdefault.jpg`}
+                      src={`https://img.youtube.com/vi/${first.video_id}/mqdefault.jpg`}
                       alt="Video thumbnail"
                       className="video-thumbnail"
                       loading="lazy"
                     />
                     <div className="video-card-info">
-                      {videoTitles.get(video.video_id) && (
-                        <span className="video-card-title">{videoTitles.get(video.video_id)}</span>
-                      )}
+                      {details && <span className="video-card-title">{details.title}</span>}
+                      {details?.channel && <span className="video-card-channel">{details.channel}</span>}
                       <div className="video-card-meta">
-                        <span className="video-timestamp">{formatTimestamp(video.timestamp_seconds)}</span>
-                        <span className={`video-orientation-badge ${video.orientation}`}>
-                          {video.orientation}
+                        {'results' in item
+                          ? <span className="video-hit-count">{hits.length} hit{hits.length !== 1 ? 's' : ''}</span>
+                          : <span className="video-timestamp">{formatTimestamp(first.timestamp_seconds)}</span>}
+                        <span className={`video-orientation-badge ${first.orientation}`}>
+                          {first.orientation}
                         </span>
                       </div>
                     </div>
                     <span className="video-card-chevron">{isOpen ? '▲' : '▼'}</span>
                   </button>
-                  {isOpen && (
-                    <div className="video-card-embed">
-                      <iframe
-                        src={`https://www.youtube.com/embed/${video.video_id}?start=${start}&autoplay=1`}
-                        title="Chess video"
-                        allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
-                        allowFullScreen
-                      />
+                  {'results' in item && (
+                    <div className="video-chapters">
+                      {hits.map(hit => (
+                        <button
+                          key={hit.timestamp_seconds}
+                          type="button"
+                          className={`video-chapter-chip${isOpen && selectedVideo?.timestamp_seconds === hit.timestamp_seconds ? ' is-active' : ''}`}
+                          onClick={() => setSelectedVideo(hit)}
+                        >
+                          {formatTimestamp(hit.timestamp_seconds)}
+                        </button>
+                      ))}
                     </div>
                   )}
+                  {isOpen && selectedVideo && (
+                    <VideoPlayer
+                      videoId={selectedVideo.video_id}
+                      startSeconds={Math.max(0, selectedVideo.timestamp_seconds - TIMESTAMP_OFFSET_SECONDS)}
+                      clipSeconds={isWatchingAll ? Math.max(MIN_CLIP_SECONDS, clipSeconds || DEFAULT_CLIP_SECONDS) : null}
+                      onClipEnd={handleClipEnd}
+                    />
+                  )}
                 </div>
               );
             })}
-            {!isSearching && videoResults.length > visibleCount && (
+            {!isSearching && playlistItems.length > visibleCount && (
               <button
                 type="button"
                 className="button load-more-btn"
                 onClick={() => setVisibleCount(c => c + PAGE_SIZE)}
               >
-                Load more ({videoResults.length - visibleCount} remaining)
+                Load more ({playlistItems.length - visibleCount} remaining)
               </button>
             )}
           </div>
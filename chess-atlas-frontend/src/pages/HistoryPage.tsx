@@ -0,0 +1,150 @@
+import { useState, useEffect, useCallback, useRef, type ChangeEvent } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { downloadTextFile } from '../lib/download';
+import {
+  deleteAnalysis,
+  exportArchive,
+  importArchive,
+  listAnalyses,
+  type AnalysisRecord,
+} from '../lib/historyStore';
+
+/** Local YYYY-MM-DD, to compare against <input type="date"> values. */
+const toDateInputValue = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+function HistoryPage() {
+  const navigate = useNavigate();
+  const [records, setRecords] = useState<AnalysisRecord[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string>('');
+  const [notice, setNotice] = useState<string>('');
+  const [query, setQuery] = useState<string>('');
+  const [dateFilter, setDateFilter] = useState<string>('');
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setRecords(await listAnalyses());
+    } catch {
+      setError('Could not read the local history. Your browser may be blocking storage.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const handleDelete = async (id: string) => {
+    setError('');
+    try {
+      await deleteAnalysis(id);
+      setRecords(prev => prev.filter(r => r.id !== id));
+    } catch {
+      setError('Could not delete that analysis.');
+    }
+  };
+
+  const handleExport = async () => {
+    setError('');
+    try {
+      const archive = await exportArchive();
+      downloadTextFile(`chess-atlas-history-${toDateInputValue(Date.now())}.json`, archive, 'application/json');
+    } catch {
+      setError('Could not export the history.');
+    }
+  };
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    setError('');
+    setNotice('');
+    try {
+      const count = await importArchive(await file.text());
+      setNotice(`Imported ${count} analys${count === 1 ? 'is' : 'es'}.`);
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not import that file.');
+    }
+  };
+
+  const normalizedQuery = query.trim().toLowerCase();
+  const visibleRecords = records.filter(record => {
+    if (dateFilter && toDateInputValue(record.createdAt) !== dateFilter) return false;
+    if (!normalizedQuery) return true;
+    return (
+      record.fen.toLowerCase().includes(normalizedQuery) ||
+      record.imageName.toLowerCase().includes(normalizedQuery) ||
+      new Date(record.createdAt).toLocaleString().toLowerCase().includes(normalizedQuery)
+    );
+  });
+
+  return (
+    <div className="container">
+      <div className="top-section">
+        <div className="history-toolbar">
+          <input
+            type="search"
+            className="fen-input history-search"
+            placeholder="Search by FEN, file name or date"
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+          />
+          <input
+            type="date"
+            className="fen-input history-date"
+            value={dateFilter}
+            onChange={e => setDateFilter(e.target.value)}
+            aria-label="Filter by date"
+          />
+          <button type="button" className="button" onClick={() => void handleExport()} disabled={records.length === 0}>Export</button>
+          <button type="button" className="button" onClick={() => importInputRef.current?.click()}>Import</button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept="application/json,.json"
+            hidden
+            onChange={e => void handleImport(e)}
+          />
+        </div>
+        {error && <div className="error">{error}</div>}
+        {notice && <div className="loading">{notice}</div>}
+      </div>
+
+      {isLoading ? (
+        <p className="placeholder">Loading history...</p>
+      ) : visibleRecords.length === 0 ? (
+        <p className="placeholder">
+          {records.length === 0 ? 'No saved analyses yet. Analyze a photo and it will show up here.' : 'No analyses match your search.'}
+        </p>
+      ) : (
+        <ul className="history-list">
+          {visibleRecords.map(record => (
+            <li key={record.id} className="history-item">
+              <img src={record.thumbnail} alt={record.imageName} className="history-thumbnail" />
+              <div className="history-item-info">
+                <span className="history-item-name" title={record.imageName}>{record.imageName}</span>
+                <span className="history-item-date">{new Date(record.createdAt).toLocaleString()}</span>
+                <code className="history-item-fen">{record.fen}</code>
+              </div>
+              <div className="history-item-actions">
+                <button type="button" className="button" onClick={() => navigate('/', { state: { historyEntryId: record.id } })}>Open</button>
+                <button type="button" className="switch-button" onClick={() => void handleDelete(record.id)}>Delete</button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default HistoryPage;
@@ -0,0 +1,198 @@
+import { useState, type FormEvent } from 'react';
+import Chessground from '@react-chess/chessground';
+import { useSettings } from '../hooks/useSettings';
+import { DEFAULT_ANALYZE_API_URL, DEFAULT_LOOKUP_API_URL } from '../lib/apiClient';
+import { FEN_MATCH_MODES, type FenMatchMode } from '../lib/fenMatching';
+import {
+  BOARD_THEMES,
+  COLOR_SCHEMES,
+  DEFAULT_SETTINGS,
+  PIECE_SETS,
+  TIMEOUT_LIMITS,
+  endpointError,
+  getSettings,
+  type BoardTheme,
+  type ColorScheme,
+  type PieceSet,
+  type Settings,
+} from '../lib/settings';
+
+// Every piece type on both colors, so the piece set can be judged at a glance
+const PREVIEW_CONFIG = {
+  fen: 'r1bqk2r/pppp1ppp/2n2n2/2b1p3/2B1P3/2N2N2/PPPP1PPP/R1BQK2R w KQkq - 4 5',
+  viewOnly: true,
+  coordinates: false,
+};
+
+/** Editable copies of the connection settings; numbers stay strings while being typed. */
+const connectionFields = (settings: Settings) => ({
+  analyzeApiUrl: settings.analyzeApiUrl,
+  lookupApiUrl: settings.lookupApiUrl,
+  analyzeTimeoutSeconds: String(settings.analyzeTimeoutSeconds),
+  lookupTimeoutSeconds: String(settings.lookupTimeoutSeconds),
+});
+
+/**
+ * Preferences saved in this browser. Appearance and defaults apply as soon as
+ * they change; the connection fields wait for Apply so a half-typed URL never
+ * receives a request.
+ */
+function SettingsPage() {
+  const { settings, updateSettings, resetSettings } = useSettings();
+  const [connection, setConnection] = useState(() => connectionFields(settings));
+  const [notice, setNotice] = useState('');
+
+  const analyzeUrlError = endpointError(connection.analyzeApiUrl);
+  const lookupUrlError = endpointError(connection.lookupApiUrl);
+
+  const editConnection = (patch: Partial<typeof connection>) => {
+    setConnection(prev => ({ ...prev, ...patch }));
+    setNotice('');
+  };
+
+  const handleApplyConnection = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (analyzeUrlError || lookupUrlError) return;
+    updateSettings({
+      analyzeApiUrl: connection.analyzeApiUrl.trim(),
+      lookupApiUrl: connection.lookupApiUrl.trim(),
+      // Out-of-range timeouts are clamped by storeSettings
+      analyzeTimeoutSeconds: Number(connection.analyzeTimeoutSeconds) || settings.analyzeTimeoutSeconds,
+      lookupTimeoutSeconds: Number(connection.lookupTimeoutSeconds) || settings.lookupTimeoutSeconds,
+    });
+    // Show what was actually stored, clamping included
+    setConnection(connectionFields(getSettings()));
+    setNotice('Connection settings saved.');
+  };
+
+  const handleReset = () => {
+    if (!window.confirm('Reset every setting to its default?')) return;
+    resetSettings();
+    setConnection(connectionFields(DEFAULT_SETTINGS));
+    setNotice('All settings reset.');
+  };
+
+  return (
+    <div className="container">
+      <div className="settings-page">
+        <h2>Settings</h2>
+        <p className="settings-note">Saved in this browser only.</p>
+
+        <section className="settings-section">
+          <h3>Appearance</h3>
+          <label className="settings-field">
+            <span>Theme</span>
+            <select value={settings.colorScheme} onChange={e => updateSettings({ colorScheme: e.target.value as ColorScheme })}>
+              {(Object.keys(COLOR_SCHEMES) as ColorScheme[]).map(scheme => (
+                <option key={scheme} value={scheme}>{COLOR_SCHEMES[scheme]}</option>
+              ))}
+            </select>
+          </label>
+          <label className="settings-field">
+            <span>Board colors</span>
+            <select value={settings.boardTheme} onChange={e => updateSettings({ boardTheme: e.target.value as BoardTheme })}>
+              {(Object.keys(BOARD_THEMES) as BoardTheme[]).map(theme => (
+                <option key={theme} value={theme}>{BOARD_THEMES[theme]}</option>
+              ))}
+            </select>
+          </label>
+          <label className="settings-field">
+            <span>Piece set</span>
+            <select value={settings.pieceSet} onChange={e => updateSettings({ pieceSet: e.target.value as PieceSet })}>
+              {(Object.keys(PIECE_SETS) as PieceSet[]).map(set => (
+                <option key={set} value={set}>{PIECE_SETS[set]}</option>
+              ))}
+            </select>
+          </label>
+          <div className="settings-board-preview" aria-hidden="true">
+            <Chessground config={PREVIEW_CONFIG} />
+          </div>
+        </section>
+
+        <section className="settings-section">
+          <h3>Defaults</h3>
+          <div className="settings-field">
+            <span>Orientation</span>
+            <div className="settings-toggle">
+              {(['white', 'black'] as const).map(side => (
+                <button key={side} type="button"
+                  className={`switch-button${settings.defaultOrientation === side ? ' is-active' : ''}`}
+                  onClick={() => updateSettings({ defaultOrientation: side })}
+                  aria-pressed={settings.defaultOrientation === side}
+                >{side === 'white' ? 'White' : 'Black'}</button>
+              ))}
+            </div>
+          </div>
+          <p className="settings-hint">The photo side for new analyses and the board side for a fresh Explorer.</p>
+          <div className="settings-field">
+            <span>Side to move</span>
+            <div className="settings-toggle">
+              {(['w', 'b'] as const).map(turn => (
+                <button key={turn} type="button"
+                  className={`switch-button${settings.defaultSideToMove === turn ? ' is-active' : ''}`}
+                  onClick={() => updateSettings({ defaultSideToMove: turn })}
+                  aria-pressed={settings.defaultSideToMove === turn}
+                >{turn === 'w' ? 'White' : 'Black'}</button>
+              ))}
+            </div>
+          </div>
+          <p className="settings-hint">Assumed when nothing in a photo shows whose move it is.</p>
+          <label className="settings-field">
+            <span>Video matching</span>
+            <select value={settings.fenMatchMode} onChange={e => updateSettings({ fenMatchMode: e.target.value as FenMatchMode })}>
+              {(Object.keys(FEN_MATCH_MODES) as FenMatchMode[]).map(mode => (
+                <option key={mode} value={mode}>{FEN_MATCH_MODES[mode]}</option>
+              ))}
+            </select>
+          </label>
+          <p className="settings-hint">Which parts of the position the Explorer compares when looking up videos.</p>
+        </section>
+
+        <section className="settings-section">
+          <h3>Connection</h3>
+          <form className="settings-connection" onSubmit={handleApplyConnection}>
+            <label className="settings-field">
+              <span>Analyze endpoint</span>
+              <input type="url" className="fen-input" value={connection.analyzeApiUrl}
+                placeholder={DEFAULT_ANALYZE_API_URL} aria-invalid={!!analyzeUrlError}
+                onChange={e => editConnection({ analyzeApiUrl: e.target.value })} />
+            </label>
+            {analyzeUrlError && <p className="pgn-error">{analyzeUrlError}</p>}
+            <label className="settings-field">
+              <span>Lookup endpoint</span>
+              <input type="url" className="fen-input" value={connection.lookupApiUrl}
+                placeholder={DEFAULT_LOOKUP_API_URL} aria-invalid={!!lookupUrlError}
+                onChange={e => editConnection({ lookupApiUrl: e.target.value })} />
+            </label>
+            {lookupUrlError && <p className="pgn-error">{lookupUrlError}</p>}
+            <label className="settings-field">
+              <span>Analyze timeout (s)</span>
+              <input type="number" className="fen-input settings-number" value={connection.analyzeTimeoutSeconds}
+                min={TIMEOUT_LIMITS.analyze.min} max={TIMEOUT_LIMITS.analyze.max}
+                placeholder={String(settings.analyzeTimeoutSeconds)}
+                onChange={e => editConnection({ analyzeTimeoutSeconds: e.target.value })} />
+            </label>
+            <label className="settings-field">
+              <span>Lookup timeout (s)</span>
+              <input type="number" className="fen-input settings-number" value={connection.lookupTimeoutSeconds}
+                min={TIMEOUT_LIMITS.lookup.min} max={TIMEOUT_LIMITS.lookup.max}
+                placeholder={String(settings.lookupTimeoutSeconds)}
+                onChange={e => editConnection({ lookupTimeoutSeconds: e.target.value })} />
+            </label>
+            <p className="settings-hint">Leave an endpoint blank to use the built-in server.</p>
+            <div className="settings-actions">
+              <button type="submit" className="button" disabled={!!analyzeUrlError || !!lookupUrlError}>Apply</button>
+            </div>
+          </form>
+        </section>
+
+        <div className="settings-actions">
+          <button type="button" className="switch-button" onClick={handleReset}>Reset all settings</button>
+        </div>
+        {notice && <div className="loading" role="status">{notice}</div>}
+      </div>
+    </div>
+  );
+}
+
+export default SettingsPage;
@@ -1,7 +1,14 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
+  test: {
+    environment: 'jsdom',
+    // chessground names its entry only under "module", which server-side resolution skips
+    alias: [{ find: /^chessground$/, replacement: 'chessground/chessground.js' }],
+    server: { deps: { inline: ['@react-chess/chessground'] } },
+  },
 })